@@ -1 +1,16 @@
 export { default } from './src/squirmy';
+export { sql, SqlFragment, quoteIdentifier } from './src/squirmy/sql';
+export {
+  SquirmyError,
+  ValidationError,
+  UniqueConstraintError,
+  ForeignKeyError,
+  NotNullError,
+  CheckConstraintError,
+  NotFoundError,
+  ConnectionError,
+  QueryTimeoutError,
+  TransactionConflictError,
+  QueryError,
+  ScopeViolationError,
+} from './src/squirmy/errors';
@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  aggregateSelections,
+  compileAggregateOrderBy,
+  compileHaving,
+  readAggregates,
+} from './aggregate';
+
+const context = {
+  table: 'Order',
+  fields: { id: 'integer', status: 'varchar', total: 'float' },
+};
+
+describe('aggregateSelections', () => {
+  test('aliases each aggregate by function and field', () => {
+    expect(
+      aggregateSelections({ _count: true, _sum: ['total'] }, context)
+    ).toEqual([
+      { fn: '_count', expression: 'COUNT(*)', alias: '_count' },
+      {
+        fn: '_sum',
+        field: 'total',
+        expression: 'SUM("total")',
+        alias: '_sum.total',
+      },
+    ]);
+  });
+
+  test('rejects unknown fields and fieldless aggregates', () => {
+    expect(() => aggregateSelections({ _avg: ['price'] }, context)).toThrow(
+      'Unknown field "price" in aggregate for "Order"'
+    );
+    expect(() => aggregateSelections({ _max: true } as any, context)).toThrow(
+      '_max needs a list of fields'
+    );
+  });
+});
+
+describe('compileHaving', () => {
+  test('filters the row count and per-field aggregates', () => {
+    const params: any[] = [];
+
+    const sql = compileHaving(
+      { _count: { gt: 2 }, _sum: { total: { gte: 100 } } },
+      params,
+      context
+    );
+
+    expect(sql).toBe('COUNT(*) > $1 AND SUM("total") >= $2');
+    expect(params).toEqual([2, 100]);
+  });
+
+  test('rejects keys that are not aggregates', () => {
+    expect(() => compileHaving({ total: 1 } as any, [], context)).toThrow(
+      'Unknown aggregate "total" in having clause for "Order"'
+    );
+  });
+});
+
+describe('compileAggregateOrderBy', () => {
+  test('orders by grouped fields and aggregates', () => {
+    expect(
+      compileAggregateOrderBy(
+        { status: 'asc', _count: 'desc', _sum: { total: 'desc' } },
+        ['status'],
+        context
+      )
+    ).toEqual(['"status" ASC', 'COUNT(*) DESC', 'SUM("total") DESC']);
+  });
+
+  test('only orders by fields that are grouped', () => {
+    expect(() =>
+      compileAggregateOrderBy({ id: 'asc' }, ['status'], context)
+    ).toThrow('Cannot order "Order" groups by "id": it is not in "by"');
+  });
+});
+
+describe('readAggregates', () => {
+  test('nests the aliases again and turns counts and sums into numbers', () => {
+    const selected = aggregateSelections(
+      { _count: true, _sum: ['total'], _max: ['status'] },
+      context
+    );
+
+    expect(
+      readAggregates(
+        { _count: '3', '_sum.total': '120.5', '_max.status': 'paid' },
+        selected
+      )
+    ).toEqual({ _count: 3, _sum: { total: 120.5 }, _max: { status: 'paid' } });
+  });
+});
@@ -0,0 +1,189 @@
+import { compileField } from './where';
+import { quoteIdentifier } from './sql';
+
+const aggregateFunctions: Record<
+  AggregateFunction,
+  (column: string) => string
+> = {
+  _count: (column) => `COUNT(${column})`,
+  _countDistinct: (column) => `COUNT(DISTINCT ${column})`,
+  _sum: (column) => `SUM(${column})`,
+  _avg: (column) => `AVG(${column})`,
+  _min: (column) => `MIN(${column})`,
+  _max: (column) => `MAX(${column})`,
+};
+
+// COUNT returns bigint, and SUM/AVG of integer columns return numeric; pg
+// hands both back as strings.
+const numericAggregates = new Set<AggregateFunction>([
+  '_count',
+  '_countDistinct',
+  '_sum',
+  '_avg',
+]);
+
+type AggregateContext = {
+  table: string;
+  fields: Record<string, SchemaField>;
+};
+
+export type SelectedAggregate = {
+  fn: AggregateFunction;
+  field?: string;
+  expression: string;
+  alias: string;
+};
+
+function isAggregate(key: string): key is AggregateFunction {
+  return key in aggregateFunctions;
+}
+
+function checkField(field: string, context: AggregateContext): void {
+  if (!(field in context.fields)) {
+    throw new Error(
+      `Unknown field "${field}" in aggregate for "${context.table}"`
+    );
+  }
+}
+
+function aggregateExpression(fn: AggregateFunction, field?: string): string {
+  return aggregateFunctions[fn](
+    field === undefined ? '*' : quoteIdentifier(field)
+  );
+}
+
+function sortDirection(direction: unknown): string {
+  if (direction !== 'asc' && direction !== 'desc') {
+    throw new Error(`Invalid sort direction "${direction}"`);
+  }
+  return direction.toUpperCase();
+}
+
+/**
+ * Lists the aggregates to select, each aliased as `_fn` or `_fn.field` so the
+ * result row can be nested again by `readAggregates`.
+ */
+export function aggregateSelections(
+  selection: AggregateSelection<any>,
+  context: AggregateContext
+): SelectedAggregate[] {
+  const selected: SelectedAggregate[] = [];
+  for (const fn of Object.keys(aggregateFunctions) as AggregateFunction[]) {
+    const fields = selection[fn];
+    if (!fields) continue;
+
+    if (fields === true) {
+      if (fn !== '_count') {
+        throw new Error(`${fn} needs a list of fields`);
+      }
+      selected.push({ fn, expression: aggregateExpression(fn), alias: fn });
+      continue;
+    }
+    for (const field of fields.map(String)) {
+      checkField(field, context);
+      selected.push({
+        fn,
+        field,
+        expression: aggregateExpression(fn, field),
+        alias: `${fn}.${field}`,
+      });
+    }
+  }
+  return selected;
+}
+
+/**
+ * Compiles a having clause. Filters use the same operators as where clauses
+ * and are keyed by aggregate and then by field; `_count` may also filter the
+ * row count directly.
+ */
+export function compileHaving(
+  having: HavingClause<any> | undefined,
+  params: any[],
+  context: AggregateContext
+): string {
+  const conditions: string[] = [];
+  for (const [key, filter] of Object.entries(having ?? {})) {
+    if (filter === undefined) continue;
+    if (!isAggregate(key)) {
+      throw new Error(
+        `Unknown aggregate "${key}" in having clause for "${context.table}"`
+      );
+    }
+
+    const perField =
+      filter !== null &&
+      typeof filter === 'object' &&
+      !Array.isArray(filter) &&
+      Object.keys(filter).every((field) => field in context.fields);
+    if (key === '_count' && !perField) {
+      conditions.push(
+        ...compileField(aggregateExpression(key), filter, params)
+      );
+      continue;
+    }
+    const fieldFilters = filter as Record<string, FieldFilter<any>>;
+    for (const [field, fieldFilter] of Object.entries(fieldFilters)) {
+      if (fieldFilter === undefined) continue;
+      checkField(field, context);
+      conditions.push(
+        ...compileField(aggregateExpression(key, field), fieldFilter, params)
+      );
+    }
+  }
+  return conditions.join(' AND ');
+}
+
+/**
+ * Compiles the ORDER BY of a grouped query. Plain keys must be grouped
+ * fields; aggregate keys order by the aggregate of a field.
+ */
+export function compileAggregateOrderBy(
+  orderBy: Record<string, any> | undefined,
+  groupBy: string[],
+  context: AggregateContext
+): string[] {
+  const clauses: string[] = [];
+  for (const [key, value] of Object.entries(orderBy ?? {})) {
+    if (value === undefined) continue;
+
+    if (!isAggregate(key)) {
+      if (!groupBy.includes(key)) {
+        throw new Error(
+          `Cannot order "${context.table}" groups by "${key}": it is not in "by"`
+        );
+      }
+      clauses.push(`${quoteIdentifier(key)} ${sortDirection(value)}`);
+    } else if (typeof value === 'string') {
+      if (key !== '_count') {
+        throw new Error(`Ordering by ${key} needs a field`);
+      }
+      clauses.push(`${aggregateExpression(key)} ${sortDirection(value)}`);
+    } else {
+      for (const [field, direction] of Object.entries(value)) {
+        checkField(field, context);
+        clauses.push(
+          `${aggregateExpression(key, field)} ${sortDirection(direction)}`
+        );
+      }
+    }
+  }
+  return clauses;
+}
+
+export function readAggregates(
+  row: Record<string, any>,
+  selected: SelectedAggregate[]
+): AggregateResult<any> {
+  const result: Record<string, any> = {};
+  for (const { fn, field, alias } of selected) {
+    const raw = row[alias];
+    const value = raw !== null && numericAggregates.has(fn) ? Number(raw) : raw;
+    if (field === undefined) {
+      result[fn] = value;
+    } else {
+      result[fn] = { ...result[fn], [field]: value };
+    }
+  }
+  return result;
+}
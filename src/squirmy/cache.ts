@@ -0,0 +1,109 @@
+const KEY_PREFIX = 'squirmy';
+
+/**
+ * Default cache adapter: an in-process LRU. Values are cloned on the way in
+ * and out so callers can mutate what they get back.
+ */
+export class MemoryCache implements CacheAdapter {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get<V = unknown>(key: string): Promise<V | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Re-inserting moves the key to the most recently used end.
+    this.entries.set(key, entry);
+    return structuredClone(entry.value) as V;
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Shared by every QueryBuilder of a Squirmy instance. Rows looked up by
+ * primary key and query results are stored under per-table keys so that a
+ * write can drop everything it may have made stale.
+ */
+export default class QueryCache {
+  private adapter: CacheAdapter;
+  private ttl: number;
+  private models?: Record<string, boolean | { ttl?: number }>;
+
+  constructor(options: CacheOptions = {}) {
+    this.adapter = options.adapter ?? new MemoryCache(options.maxEntries);
+    this.ttl = options.ttl ?? 600;
+    this.models = options.models;
+  }
+
+  isEnabled(model: string): boolean {
+    return !this.models || Boolean(this.models[model]);
+  }
+
+  private ttlFor(model: string): number {
+    const config = this.models?.[model];
+    return (typeof config === 'object' && config.ttl) || this.ttl;
+  }
+
+  primaryKeyKey(model: string, id: unknown): string {
+    return `${KEY_PREFIX}:${model}:pk:${JSON.stringify(id)}`;
+  }
+
+  queryKey(model: string, method: string, params: unknown): string {
+    return `${KEY_PREFIX}:${model}:query:${method}:${JSON.stringify(params)}`;
+  }
+
+  async get<V>(key: string): Promise<V | undefined> {
+    return this.adapter.get<V>(key);
+  }
+
+  async set(model: string, key: string, value: unknown): Promise<void> {
+    await this.adapter.set(key, value, this.ttlFor(model));
+  }
+
+  /**
+   * Drops every cached query of the model along with the given rows. Without
+   * primary keys (bulk writes) every cached row of the model is dropped too.
+   */
+  async invalidate(model: string, ids?: unknown[]): Promise<void> {
+    if (!ids) {
+      await this.adapter.deleteByPrefix(`${KEY_PREFIX}:${model}:`);
+      return;
+    }
+    await this.adapter.deleteByPrefix(`${KEY_PREFIX}:${model}:query:`);
+    await this.adapter.delete(ids.map((id) => this.primaryKeyKey(model, id)));
+  }
+}
@@ -0,0 +1,329 @@
+#!/usr/bin/env bun
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { Pool } from 'pg';
+import type { PoolConfig } from 'pg';
+import Squirmy, { DEFAULT_SCHEMA_PATH } from './index';
+import { lintSchema } from './lint';
+import { introspectDatabase, schemaFromSnapshot } from './introspect';
+
+const CONFIG_FILE = 'squirmy.config.json';
+
+// Exit codes: 0 on success, 1 when the command failed, 2 for bad usage.
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: squirmy <command> [options]
+
+Commands:
+  generate                     Write the types generated from the schema
+  sync                         Create every table, index and constraint
+  migrate up                   Apply pending migrations
+  migrate down                 Revert the last migration (--steps n for more)
+  migrate status               List migrations and whether they are applied
+  migrate create <name>        Write a migration for the schema changes
+  introspect                   Print a schema file read from the database
+  seed [file]                  Run a seed module against the database
+  validate                     Check the schema file for mistakes
+  drop                         Drop every table of the schema (needs --yes)
+
+Options:
+  --config <path>      Config file (default: ${CONFIG_FILE})
+  --schema <path>      Schema file (default: ${DEFAULT_SCHEMA_PATH})
+  --out <path>         generate, introspect: file to write
+  --format <format>    generate: global or module
+  --dry-run            sync: print the statements instead of running them
+  --steps <n>          migrate down: how many migrations to revert
+  --empty              migrate create: write empty migration files
+  --yes                drop: confirm dropping the tables
+  --log-level <level>  debug, info, warn, error or silent
+  -h, --help           Show this message`;
+
+class UsageError extends Error {}
+
+type Flags = {
+  config?: string;
+  schema?: string;
+  out?: string;
+  format?: string;
+  'dry-run'?: boolean;
+  steps?: string;
+  empty?: boolean;
+  yes?: boolean;
+  'log-level'?: string;
+  help?: boolean;
+};
+
+type Context = {
+  config: SquirmyConfig;
+  flags: Flags;
+  args: string[];
+};
+
+/**
+ * Reads squirmy.config.json, or the file given with --config, and lets the
+ * environment override it: DATABASE_URL, SQUIRMY_SCHEMA_PATH and
+ * SQUIRMY_MIGRATIONS_DIR. Flags take precedence over both.
+ */
+function loadConfig(flags: Flags): SquirmyConfig {
+  const configPath = path.resolve(flags.config ?? CONFIG_FILE);
+  let config: SquirmyConfig = {};
+  if (fs.existsSync(configPath)) {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } else if (flags.config) {
+    throw new UsageError(`Config file not found: ${configPath}`);
+  }
+
+  const { env } = process;
+  return {
+    ...config,
+    schemaPath:
+      flags.schema ??
+      env.SQUIRMY_SCHEMA_PATH ??
+      config.schemaPath ??
+      DEFAULT_SCHEMA_PATH,
+    migrationsDir: env.SQUIRMY_MIGRATIONS_DIR ?? config.migrationsDir,
+    connectionString: env.DATABASE_URL ?? config.connectionString,
+    logLevel: (flags['log-level'] as LogLevel | undefined) ?? config.logLevel,
+  };
+}
+
+// Without either, pg reads the PG* environment variables.
+function poolConfig(config: SquirmyConfig): PoolConfig {
+  return {
+    ...config.pool,
+    ...(config.connectionString
+      ? { connectionString: config.connectionString }
+      : {}),
+  };
+}
+
+// Logs go to stderr so that stdout only carries command output.
+const logger: Logger = {
+  debug: console.error,
+  info: console.error,
+  warn: console.error,
+  error: console.error,
+};
+
+function createSquirmy(config: SquirmyConfig): Squirmy {
+  return new Squirmy({
+    schemaPath: config.schemaPath,
+    pool: poolConfig(config),
+    migrationsDir: config.migrationsDir,
+    types: config.types,
+    logger,
+    logLevel: config.logLevel,
+  });
+}
+
+async function withSquirmy(
+  config: SquirmyConfig,
+  callback: (squirmy: Squirmy) => Promise<number>
+): Promise<number> {
+  const squirmy = createSquirmy(config);
+  try {
+    return await callback(squirmy);
+  } finally {
+    await squirmy.close();
+  }
+}
+
+function writeOutput(content: string, out?: string): void {
+  if (out) {
+    fs.writeFileSync(path.resolve(out), content);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+const commands: Record<string, (context: Context) => Promise<number>> = {
+  async generate({ config, flags }) {
+    const format = flags.format ?? config.types?.format;
+    if (format !== undefined && format !== 'global' && format !== 'module') {
+      throw new UsageError(`Unknown types format "${format}"`);
+    }
+    return withSquirmy(config, async (squirmy) => {
+      await squirmy.generateTypes({
+        ...config.types,
+        outputPath: flags.out ?? config.types?.outputPath,
+        format,
+      });
+      return 0;
+    });
+  },
+
+  async sync({ config, flags }) {
+    return withSquirmy(config, async (squirmy) => {
+      const statements = await squirmy.sync({ dryRun: flags['dry-run'] });
+      if (flags['dry-run']) {
+        writeOutput(
+          statements.map((statement) => `${statement};\n`).join('\n')
+        );
+      }
+      return 0;
+    });
+  },
+
+  async migrate({ config, flags, args }) {
+    const [action, name] = args;
+    return withSquirmy(config, async (squirmy) => {
+      switch (action) {
+        case 'up':
+          await squirmy.migrations.up();
+          return 0;
+        case 'down': {
+          const steps = flags.steps === undefined ? 1 : Number(flags.steps);
+          if (!Number.isInteger(steps) || steps < 1) {
+            throw new UsageError('--steps must be a positive integer');
+          }
+          await squirmy.migrations.down(steps);
+          return 0;
+        }
+        case 'status':
+          for (const migration of await squirmy.migrations.status()) {
+            console.log(
+              `${migration.appliedAt ? '[x]' : '[ ]'} ${migration.version}_${
+                migration.name
+              }${
+                migration.appliedAt
+                  ? ` (applied ${migration.appliedAt.toISOString()})`
+                  : ''
+              }`
+            );
+          }
+          return 0;
+        case 'create':
+          if (!name) {
+            throw new UsageError('migrate create needs a name');
+          }
+          if (flags.empty) {
+            squirmy.migrations.create(name);
+          } else {
+            await squirmy.migrations.generate(name);
+          }
+          return 0;
+        default:
+          throw new UsageError(
+            action
+              ? `Unknown migrate command "${action}"`
+              : 'migrate needs one of up, down, status or create'
+          );
+      }
+    });
+  },
+
+  // Needs no schema file, since it is meant for databases that have none yet.
+  async introspect({ config, flags }) {
+    const pool = new Pool(poolConfig(config));
+    try {
+      const schema = schemaFromSnapshot(await introspectDatabase(pool));
+      writeOutput(`${JSON.stringify(schema, null, 2)}\n`, flags.out);
+      return 0;
+    } finally {
+      await pool.end();
+    }
+  },
+
+  async seed({ config, args }) {
+    const file = args[0] ?? config.seed;
+    if (!file) {
+      throw new UsageError(`seed needs a file, or "seed" in ${CONFIG_FILE}`);
+    }
+    const { default: seed } = await import(
+      pathToFileURL(path.resolve(file)).href
+    );
+    if (typeof seed !== 'function') {
+      throw new UsageError(`${file} must export a default seed function`);
+    }
+    return withSquirmy(config, async (squirmy) => {
+      await seed(squirmy);
+      return 0;
+    });
+  },
+
+  async validate({ config }) {
+    const schemaPath = path.resolve(config.schemaPath!);
+    if (!fs.existsSync(schemaPath)) {
+      console.error(`Schema file not found: ${schemaPath}`);
+      return EXIT_FAILURE;
+    }
+    const issues = lintSchema(JSON.parse(fs.readFileSync(schemaPath, 'utf-8')));
+    for (const issue of issues) {
+      const where = [issue.model, issue.path].filter(Boolean).join('.');
+      console.log(`${issue.severity}: ${where}: ${issue.message}`);
+    }
+    const errors = issues.filter(({ severity }) => severity === 'error');
+    console.log(
+      errors.length === 0
+        ? `${schemaPath} is valid.`
+        : `${errors.length} error(s) in ${schemaPath}.`
+    );
+    return errors.length === 0 ? 0 : EXIT_FAILURE;
+  },
+
+  async drop({ config, flags }) {
+    if (!flags.yes) {
+      throw new UsageError('drop deletes every table; pass --yes to confirm');
+    }
+    return withSquirmy(config, async (squirmy) => {
+      await squirmy.dropTables();
+      return 0;
+    });
+  },
+};
+
+/**
+ * Runs one command and resolves to the process exit code instead of exiting,
+ * so failures in scripts can be told apart from usage mistakes.
+ */
+async function run(argv: string[]): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string' },
+        schema: { type: 'string' },
+        out: { type: 'string' },
+        format: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        steps: { type: 'string' },
+        empty: { type: 'boolean' },
+        yes: { type: 'boolean' },
+        'log-level': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    const flags = values as Flags;
+    const [name, ...args] = positionals;
+    if (flags.help || !name) {
+      console.log(USAGE);
+      return flags.help ? 0 : EXIT_USAGE;
+    }
+    const command = commands[name];
+    if (!command) {
+      throw new UsageError(`Unknown command "${name}"`);
+    }
+    return await command({ config: loadConfig(flags), flags, args });
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      console.error(`${(error as Error).message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(error instanceof Error ? error.message : error);
+    return EXIT_FAILURE;
+  }
+}
+
+function isParseArgsError(error: unknown): boolean {
+  return String((error as { code?: unknown })?.code).startsWith(
+    'ERR_PARSE_ARGS'
+  );
+}
+
+run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,77 @@
+import { Pool } from 'pg';
+import type { PoolClient } from 'pg';
+import { toSquirmyError } from './errors';
+
+let cursorCount = 0;
+
+/**
+ * Yields the rows of a query in batches fetched through a server-side cursor,
+ * so only one batch is held in memory at a time. On a pool the cursor gets a
+ * dedicated client and a read-only transaction of its own, which `begin`
+ * can prepare and which end however iteration does; a client that is
+ * already in a transaction declares the cursor there and closes it
+ * afterwards.
+ */
+export async function* cursorBatches(
+  pool: Pool | PoolClient,
+  sql: string,
+  params: any[],
+  batchSize: number,
+  query: (client: PoolClient, sql: string, params?: any[]) => Promise<any[]>,
+  begin?: (client: PoolClient) => Promise<void>
+): AsyncGenerator<any[]> {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('batchSize must be a positive integer');
+  }
+  const owned = pool instanceof Pool;
+  let client: PoolClient;
+  if (pool instanceof Pool) {
+    try {
+      client = await pool.connect();
+    } catch (error) {
+      throw toSquirmyError(error, { operation: 'cursor' });
+    }
+  } else {
+    client = pool;
+  }
+
+  const name = `squirmy_cursor_${++cursorCount}`;
+  let failed = false;
+  try {
+    if (owned) {
+      await query(client, 'BEGIN READ ONLY');
+      await begin?.(client);
+    }
+    await query(
+      client,
+      `DECLARE "${name}" NO SCROLL CURSOR FOR ${sql}`,
+      params
+    );
+    while (true) {
+      const rows = await query(client, `FETCH ${batchSize} FROM "${name}"`);
+      if (rows.length > 0) {
+        yield rows;
+      }
+      if (rows.length < batchSize) {
+        break;
+      }
+    }
+  } catch (error) {
+    failed = true;
+    throw error;
+  } finally {
+    if (owned) {
+      // COMMIT rolls back an aborted transaction. A client that cannot even
+      // do that is discarded instead of going back to the pool.
+      let broken: Error | undefined;
+      try {
+        await query(client, 'COMMIT');
+      } catch (error) {
+        broken = error as Error;
+      }
+      client.release(broken);
+    } else if (!failed) {
+      await query(client, `CLOSE "${name}"`);
+    }
+  }
+}
@@ -0,0 +1,273 @@
+import { searchConfig } from './schema';
+
+// A length or precision, as in "varchar(255)" or "numeric(10, 2)".
+const SIZED_TYPE = /^(varchar|numeric)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)$/;
+
+// Types whose column a sequence fills in.
+const sequenceTypes: Record<string, string> = {
+  serial: 'SERIAL',
+  bigserial: 'BIGSERIAL',
+};
+
+export function sqlTypeFromSchemaType(schemaType: string): string {
+  const sized = SIZED_TYPE.exec(schemaType.toLowerCase());
+  if (sized) {
+    const [, type, size, scale] = sized;
+    return `${type.toUpperCase()}(${
+      scale === undefined ? size : `${size},${scale}`
+    })`;
+  }
+  switch (schemaType.toLowerCase()) {
+    case 'varchar':
+    case 'text':
+    case 'uuid':
+      return 'VARCHAR';
+    case 'smallint':
+      return 'SMALLINT';
+    case 'integer':
+    case 'serial':
+      return 'INTEGER';
+    case 'bigint':
+    case 'bigserial':
+      return 'BIGINT';
+    case 'numeric':
+      return 'NUMERIC';
+    case 'float':
+    case 'real':
+    case 'double precision':
+      return 'FLOAT';
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'date':
+      return 'DATE';
+    case 'timestamp':
+      return 'TIMESTAMP';
+    case 'timestamptz':
+      return 'TIMESTAMPTZ';
+    case 'json':
+    case 'jsonb':
+      return 'JSONB';
+    case 'tsvector':
+      return 'TSVECTOR';
+    default:
+      // Any other Postgres type, such as bytea or text[], is used as written.
+      return schemaType;
+  }
+}
+
+/**
+ * Columns of a model's primary key, in declaration order. Models without a
+ * declared key fall back to "id".
+ */
+export function primaryKeyColumns(model: Schema[string]): string[] {
+  const { primaryKey } = model;
+  if (Array.isArray(primaryKey)) {
+    return primaryKey;
+  }
+  return [primaryKey || 'id'];
+}
+
+/**
+ * Column a relation points at in its target model: `references`, or the
+ * target's primary key when that is a single column.
+ */
+export function referencedColumn(schema: Schema, relation: Relation): string {
+  if (relation.references) {
+    return String(relation.references);
+  }
+  const relatedModel = schema[relation.model];
+  if (!relatedModel) {
+    throw new Error(`Related model "${relation.model}" not found in schema`);
+  }
+  const primaryKey = primaryKeyColumns(relatedModel);
+  if (primaryKey.length > 1) {
+    throw new Error(
+      `"${relation.model}" has a composite primary key; set "references" on relations to it`
+    );
+  }
+  return primaryKey[0];
+}
+
+function defaultExpression(value: ColumnDefault): string {
+  if (value === null) {
+    return 'NULL';
+  }
+  if (typeof value === 'object') {
+    return value.sql;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid column default: ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return sqlString(value);
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Postgres stores a generation expression rewritten: identifiers unquoted,
+ * casts added or dropped and parentheses added. What remains once those are
+ * stripped is what two expressions are compared on.
+ */
+export function normalizeExpression(expression: string): string {
+  return expression
+    .toLowerCase()
+    .replace(/::("[^"]*"|character varying|double precision|\w+)/g, '')
+    .replace(/["()\s]/g, '');
+}
+
+/**
+ * The expression a search column is generated from: each field's words,
+ * weighted, concatenated into one tsvector.
+ */
+export function searchVectorExpression(model: Schema[string]): string {
+  const search = searchConfig(model);
+  if (!search) {
+    throw new Error('The model has no search fields');
+  }
+  const language = `${sqlString(search.language)}::regconfig`;
+  return Object.entries(search.fields)
+    .map(
+      ([field, weight]) =>
+        `setweight(to_tsvector(${language}, coalesce("${field}"::text, '')), ${sqlString(
+          weight
+        )})`
+    )
+    .join(' || ');
+}
+
+export function columnDefinition(
+  modelName: string,
+  schema: Schema,
+  fieldName: string
+): string {
+  const model = schema[modelName];
+  const required = model.required || [];
+  const primaryKey = primaryKeyColumns(model);
+  const defaults = model.defaults || {};
+  if (searchConfig(model)?.column === fieldName) {
+    return `"${fieldName}" TSVECTOR GENERATED ALWAYS AS (${searchVectorExpression(
+      model
+    )}) STORED`;
+  }
+  // SERIAL is an INTEGER that a sequence fills in, which is what leaving a
+  // serial field out of an insert relies on.
+  let columnDef = `"${fieldName}" ${
+    sequenceTypes[String(model.fields[fieldName]).toLowerCase()] ??
+    sqlTypeFromSchemaType(model.fields[fieldName])
+  }`;
+  if (primaryKey.length === 1 && primaryKey[0] === fieldName) {
+    columnDef += ' PRIMARY KEY';
+  } else {
+    if (primaryKey.includes(fieldName) || required.includes(fieldName)) {
+      columnDef += ' NOT NULL';
+    } else if (
+      !(fieldName in defaults) &&
+      (fieldName === 'createdAt' || fieldName === 'updatedAt')
+    ) {
+      columnDef += ' DEFAULT now()';
+    }
+    if ((model.unique || []).includes(fieldName)) {
+      columnDef += ' UNIQUE';
+    }
+  }
+  if (fieldName in defaults) {
+    columnDef += ` DEFAULT ${defaultExpression(defaults[fieldName])}`;
+  }
+  return columnDef;
+}
+
+export function foreignKeyDefinition(
+  modelName: string,
+  schema: Schema,
+  relation: Relation
+): string {
+  const model = schema[modelName];
+  const foreignKeyField = model.fields[relation.foreignKey];
+  if (!foreignKeyField) {
+    throw new Error(
+      `Foreign key column "${relation.foreignKey}" not defined in fields`
+    );
+  }
+
+  let constraint = `FOREIGN KEY ("${relation.foreignKey}") REFERENCES "${
+    relation.model
+  }" ("${referencedColumn(schema, relation)}")`;
+  if (relation.onDelete) {
+    constraint += ` ON DELETE ${relation.onDelete}`;
+  }
+  if (relation.onUpdate) {
+    constraint += ` ON UPDATE ${relation.onUpdate}`;
+  }
+  return constraint;
+}
+
+/**
+ * Name Postgres gives an unnamed single-column foreign key, used so that
+ * constraints created inline by CREATE TABLE and by migrations line up.
+ */
+export function foreignKeyName(modelName: string, column: string): string {
+  return `${modelName}_${column}_fkey`;
+}
+
+export function belongsToRelations(
+  modelName: string,
+  schema: Schema
+): Relation[] {
+  return Object.values(schema[modelName].relations || {}).filter(
+    (relation) => relation.type === 'belongsTo'
+  );
+}
+
+export function createTableStatement(
+  modelName: string,
+  schema: Schema,
+  options: {
+    /** Whether to inline foreign keys, or which ones. */
+    foreignKeys?: boolean | ((relation: Relation) => boolean);
+    ifNotExists?: boolean;
+  } = {}
+): string {
+  const { foreignKeys = true, ifNotExists = true } = options;
+  const definitions = Object.keys(schema[modelName].fields).map((fieldName) =>
+    columnDefinition(modelName, schema, fieldName)
+  );
+  const primaryKey = primaryKeyColumns(schema[modelName]);
+  if (primaryKey.length > 1) {
+    definitions.push(
+      `PRIMARY KEY (${primaryKey.map((column) => `"${column}"`).join(', ')})`
+    );
+  }
+
+  if (foreignKeys) {
+    for (const relation of belongsToRelations(modelName, schema)) {
+      if (typeof foreignKeys === 'function' && !foreignKeys(relation)) {
+        continue;
+      }
+      definitions.push(foreignKeyDefinition(modelName, schema, relation));
+    }
+  }
+
+  return `CREATE TABLE ${ifNotExists ? 'IF NOT EXISTS ' : ''}"${modelName}" (
+  ${definitions.join(',\n  ')}
+)`;
+}
+
+export function createIndexStatement(
+  modelName: string,
+  index: Index,
+  options: { ifNotExists?: boolean } = {}
+): string {
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${
+    options.ifNotExists ? 'IF NOT EXISTS ' : ''
+  }"${index.name}" ON "${modelName}"${
+    index.using ? ` USING ${index.using.toUpperCase()}` : ''
+  } (${index.fields.map((field) => `"${field}"`).join(', ')})`;
+}
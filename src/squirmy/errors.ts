@@ -0,0 +1,166 @@
+type SquirmyErrorDetails = {
+  model?: string;
+  operation?: string;
+  /** SQLSTATE code reported by Postgres, when there is one. */
+  code?: string;
+  constraint?: string;
+  fields?: string[];
+  detail?: string;
+  cause?: unknown;
+};
+
+export class SquirmyError extends Error {
+  public model?: string;
+  public operation?: string;
+  public code?: string;
+  public constraint?: string;
+  public fields: string[];
+  public detail?: string;
+
+  constructor(message: string, details: SquirmyErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.model = details.model;
+    this.operation = details.operation;
+    this.code = details.code;
+    this.constraint = details.constraint;
+    this.fields = details.fields ?? [];
+    this.detail = details.detail;
+  }
+}
+
+export class ValidationError extends SquirmyError {
+  public issues: ValidationIssue[];
+
+  constructor(model: string, operation: string, issues: ValidationIssue[]) {
+    super(
+      `Validation failed for "${model}" (${operation}): ${issues
+        .map(({ field, message }) => `${field} ${message}`)
+        .join('; ')}`,
+      {
+        model,
+        operation,
+        fields: [...new Set(issues.map(({ field }) => field))],
+      }
+    );
+    this.issues = issues;
+  }
+}
+
+/** 23505: a unique index or primary key already has the value. */
+export class UniqueConstraintError extends SquirmyError {}
+
+/** 23503: the referenced row does not exist, or is still referenced. */
+export class ForeignKeyError extends SquirmyError {}
+
+/** 23502: a NOT NULL column was left empty. */
+export class NotNullError extends SquirmyError {}
+
+/** 23514: a CHECK constraint rejected the row. */
+export class CheckConstraintError extends SquirmyError {}
+
+/** The row an operation needs does not exist. */
+export class NotFoundError extends SquirmyError {}
+
+/** The database could not be reached, or dropped the connection. */
+export class ConnectionError extends SquirmyError {}
+
+/** 57014: the statement was cancelled, usually by statement_timeout. */
+export class QueryTimeoutError extends SquirmyError {}
+
+/** 40001 / 40P01: a serialization failure or deadlock; retrying may succeed. */
+export class TransactionConflictError extends SquirmyError {}
+
+/** A write through `squirmy.scoped` models tried to change a scoped column. */
+export class ScopeViolationError extends SquirmyError {}
+
+/** Any other database error. */
+export class QueryError extends SquirmyError {}
+
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'EPIPE',
+  '57P01', // admin_shutdown
+  '57P02', // crash_shutdown
+  '57P03', // cannot_connect_now
+  '53300', // too_many_connections
+]);
+
+// Reads the column names out of a detail such as `Key (email)=(a@b.c) already exists.`
+function fieldsFromDetail(detail?: string): string[] {
+  const match = detail && /Key \((.+?)\)=/.exec(detail);
+  if (!match) {
+    return [];
+  }
+  return match[1].split(',').map((field) => field.trim().replace(/^"|"$/g, ''));
+}
+
+/**
+ * Wraps any error thrown while talking to Postgres in the matching
+ * SquirmyError subclass. SquirmyErrors are returned as they are, with the
+ * model and operation filled in if they were not known where they were thrown.
+ */
+export function toSquirmyError(
+  error: unknown,
+  context: { model?: string; operation?: string } = {}
+): SquirmyError {
+  if (error instanceof SquirmyError) {
+    error.model ??= context.model;
+    error.operation ??= context.operation;
+    return error;
+  }
+
+  const pgError = (error ?? {}) as {
+    code?: string;
+    message?: string;
+    constraint?: string;
+    column?: string;
+    detail?: string;
+    table?: string;
+  };
+  const code = pgError.code;
+  const details: SquirmyErrorDetails = {
+    model: context.model ?? pgError.table,
+    operation: context.operation,
+    code,
+    constraint: pgError.constraint,
+    fields:
+      typeof pgError.column === 'string'
+        ? [pgError.column]
+        : fieldsFromDetail(pgError.detail),
+    detail: pgError.detail,
+    cause: error,
+  };
+  const where = [
+    details.model && `"${details.model}"`,
+    details.operation && `(${details.operation})`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  const message = `${where ? `${where}: ` : ''}${
+    pgError.message ?? String(error)
+  }`;
+
+  if (code === '23505') return new UniqueConstraintError(message, details);
+  if (code === '23503') return new ForeignKeyError(message, details);
+  if (code === '23502') return new NotNullError(message, details);
+  if (code === '23514') return new CheckConstraintError(message, details);
+  if (code === '57014' || /query read timeout/i.test(message)) {
+    return new QueryTimeoutError(message, details);
+  }
+  if (code === '40001' || code === '40P01') {
+    return new TransactionConflictError(message, details);
+  }
+  if (
+    (code && (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08'))) ||
+    /connection terminated|timeout exceeded when trying to connect/i.test(
+      message
+    )
+  ) {
+    return new ConnectionError(message, details);
+  }
+  return new QueryError(message, details);
+}
@@ -0,0 +1,73 @@
+type AnyHook = (value: any, context: HookContext) => any;
+
+/**
+ * Lifecycle hooks per model. Before-hooks run in registration order and each
+ * one receives what the previous returned (or the value it mutated); throwing
+ * aborts the write and rolls back its transaction. After-hooks receive the
+ * written rows and run before that transaction commits.
+ */
+export default class HookRegistry {
+  private hooks = new Map<string, Map<HookName, AnyHook[]>>();
+
+  constructor(hooks: Record<string, LifecycleHooks> = {}) {
+    for (const [model, modelHooks] of Object.entries(hooks)) {
+      this.register(model, modelHooks);
+    }
+  }
+
+  register(model: string, hooks: LifecycleHooks): void {
+    for (const [name, hook] of Object.entries(hooks)) {
+      if (hook) {
+        this.on(model, name as HookName, hook);
+      }
+    }
+  }
+
+  /**
+   * Adds a hook and returns a function that removes it again.
+   */
+  on<K extends HookName>(
+    model: string,
+    name: K,
+    hook: NonNullable<LifecycleHooks[K]>
+  ): () => void {
+    const modelHooks = this.hooks.get(model) ?? new Map<HookName, AnyHook[]>();
+    this.hooks.set(model, modelHooks);
+    const hooks = modelHooks.get(name) ?? [];
+    modelHooks.set(name, [...hooks, hook as AnyHook]);
+
+    return () => {
+      const current = modelHooks.get(name) ?? [];
+      modelHooks.set(
+        name,
+        current.filter((registered) => registered !== hook)
+      );
+    };
+  }
+
+  async runBefore<V>(
+    model: string,
+    name: HookName,
+    value: V,
+    context: HookContext
+  ): Promise<V> {
+    for (const hook of this.hooks.get(model)?.get(name) ?? []) {
+      const result = await hook(value, context);
+      if (result !== undefined) {
+        value = result;
+      }
+    }
+    return value;
+  }
+
+  async runAfter(
+    model: string,
+    name: HookName,
+    value: unknown,
+    context: HookContext
+  ): Promise<void> {
+    for (const hook of this.hooks.get(model)?.get(name) ?? []) {
+      await hook(value, context);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'bun:test';
+import { normalizeInclude } from './include';
+
+describe('normalizeInclude', () => {
+  test('groups dotted paths under their first relation', () => {
+    expect(
+      normalizeInclude(['posts.comments.author', 'posts.tags', 'profile'])
+    ).toEqual({
+      posts: { include: ['comments.author', 'tags'] },
+      profile: {},
+    });
+  });
+
+  test('keeps per-relation options and drops disabled relations', () => {
+    const posts = { limit: 5, include: ['comments'] };
+
+    expect(
+      normalizeInclude({
+        posts,
+        profile: true,
+        roles: false,
+      } as unknown as Include)
+    ).toEqual({ posts, profile: {} });
+  });
+
+  test('treats a missing include as no relations', () => {
+    expect(normalizeInclude(undefined)).toEqual({});
+    expect(normalizeInclude([])).toEqual({});
+  });
+});
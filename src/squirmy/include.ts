@@ -0,0 +1,34 @@
+/**
+ * Normalizes both include forms into one relation -> options map:
+ * `['posts.comments.author', 'profile']` and
+ * `{ posts: { limit: 5, include: ['comments'] }, profile: true }`.
+ */
+export function normalizeInclude(
+  include: Include | undefined
+): Record<string, IncludeOptions> {
+  const normalized: Record<string, IncludeOptions> = {};
+  if (!include) {
+    return normalized;
+  }
+
+  if (Array.isArray(include)) {
+    for (const relationPath of include) {
+      const [relationName, ...rest] = relationPath.split('.');
+      const options = (normalized[relationName] ??= {});
+      if (rest.length > 0) {
+        options.include = [
+          ...((options.include as string[] | undefined) ?? []),
+          rest.join('.'),
+        ];
+      }
+    }
+    return normalized;
+  }
+
+  for (const [relationName, options] of Object.entries(include)) {
+    if (options) {
+      normalized[relationName] = options === true ? {} : options;
+    }
+  }
+  return normalized;
+}
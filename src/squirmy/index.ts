@@ -1,32 +1,84 @@
 import { Pool } from 'pg';
-import type { PoolConfig, QueryResult, QueryResultRow } from 'pg';
+import type { PoolClient, PoolConfig, QueryResult, QueryResultRow } from 'pg';
 import fs from 'fs';
 import path from 'path';
-import crypto from 'crypto';
 import QueryBuilder from './querybuilder';
+import Migrator from './migrations';
+import QueryCache from './cache';
+import HookRegistry from './hooks';
+import Validator from './validation';
+import { Transaction, runInTransaction } from './transaction';
+import { toSquirmyError } from './errors';
+import Instrumentation from './instrumentation';
+import { junctionModels, syncStatements } from './sync';
+import { typeDeclarations } from './typegen';
+import { normalizeSchema } from './schema';
+import { SqlFragment, toQuery } from './sql';
+import { applyScopeSettings, createScope } from './scope';
+import type { ModelScope } from './scope';
+
+/** Where the schema is read from when no `schemaPath` is given. */
+export const DEFAULT_SCHEMA_PATH = './schema/squirmy.json';
+
+/** Models and transactions confined to a scope; see `Squirmy.scoped`. */
+export type ScopedSquirmy = {
+  models: {
+    [K in keyof ModelTypes]: QueryBuilder<K>;
+  };
+  transaction<R>(
+    callback: (tx: Transaction) => Promise<R>,
+    options?: TransactionOptions
+  ): Promise<R>;
+};
 
 export default class Squirmy {
   private pool: Pool;
   public models: {
     [K in keyof ModelTypes]: QueryBuilder<K>;
   };
+  public migrations: Migrator;
+  public hooks: HookRegistry;
+  public events: Instrumentation;
   private schema: Schema;
   private schemaPath: string;
+  private cache?: QueryCache;
+  private validator: Validator;
+  private typeOptions: TypeGenerationOptions;
 
-  constructor(options: { schemaPath: string; pool: Pool | PoolConfig }) {
+  constructor(
+    options: {
+      schemaPath?: string;
+      pool: Pool | PoolConfig;
+      migrationsDir?: string;
+      cache?: CacheOptions;
+      hooks?: { [K in keyof ModelTypes]?: LifecycleHooks<ModelData<K>> };
+      validators?: Record<string, CustomValidator>;
+      types?: TypeGenerationOptions;
+    } & InstrumentationOptions
+  ) {
+    this.events = new Instrumentation(options);
     if (options.pool instanceof Pool) {
       this.pool = options.pool;
     } else {
       this.pool = new Pool(options.pool);
     }
-    this.schemaPath = options.schemaPath;
+    this.schemaPath = options.schemaPath ?? DEFAULT_SCHEMA_PATH;
+    this.typeOptions = options.types ?? {};
     this.schema = this.loadSchema(this.schemaPath);
+    if (options.cache) {
+      this.cache = new QueryCache(options.cache);
+    }
+    this.hooks = new HookRegistry(options.hooks);
+    this.validator = new Validator(this.schema, options.validators);
 
-    this.models = {} as {
-      [K in keyof ModelTypes]: QueryBuilder<K>;
-    };
-
+    this.models = this.createModels(this.pool);
     this.initializeModels();
+    this.migrations = new Migrator(
+      this.pool,
+      this.schema,
+      options.migrationsDir,
+      this.events.logger
+    );
   }
 
   private loadSchema(schemaPath: string): Schema {
@@ -35,142 +87,170 @@ export default class Squirmy {
       throw new Error(`Schema file not found: ${fullPath}`);
     }
     const schemaContent = fs.readFileSync(fullPath, 'utf-8');
-    return JSON.parse(schemaContent);
+    return normalizeSchema(JSON.parse(schemaContent));
   }
-  private sqlTypeToTsType(sqlType: string): string {
+  /**
+   * Writes the declarations generated from the schema, leaving the file alone
+   * when it is already up to date. Returns the path of the file.
+   */
+  public async generateTypes(
+    options: TypeGenerationOptions = this.typeOptions
+  ): Promise<string> {
+    const outputPath = path.resolve(options.outputPath ?? 'squirmy_types.d.ts');
+    const content = typeDeclarations(this.schema, options.format);
     if (
-      sqlType.startsWith('varchar') ||
-      sqlType === 'text' ||
-      sqlType === 'uuid'
-    ) {
-      return 'string';
-    } else if (
-      sqlType === 'int' ||
-      sqlType === 'serial' ||
-      sqlType === 'bigint'
+      fs.existsSync(outputPath) &&
+      fs.readFileSync(outputPath, 'utf-8') === content
     ) {
-      return 'number';
-    } else if (sqlType === 'boolean') {
-      return 'boolean';
-    } else if (sqlType === 'date' || sqlType === 'timestamp') {
-      return 'Date';
-    } else if (sqlType === 'json' || sqlType === 'jsonb') {
-      return 'any';
-    } else {
-      return 'any';
+      this.events.logger.info(
+        'No changes in schema detected. Types file not updated.'
+      );
+      return outputPath;
     }
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, content);
+    this.events.logger.info(`Types generated and written to ${outputPath}.`);
+    return outputPath;
   }
 
-  private generateSchemaHash(schema: Schema): string {
-    const hash = crypto.createHash('sha256');
-    hash.update(JSON.stringify(schema));
-    return hash.digest('hex');
-  }
-
-  private async generateTypesFromSchema(): Promise<void> {
-    console.log('Generating Types from Schema...');
-    const types: string[] = [];
-    const typesFilePath = path.join(process.cwd(), 'squirmy_types.d.ts');
-    const hashFilePath = path.join(process.cwd(), 'squirmy_schema_hash.txt');
-
-    let existingContent = '';
-    let existingHash = '';
-
-    if (fs.existsSync(typesFilePath)) {
-      existingContent = fs.readFileSync(typesFilePath, 'utf-8');
-    }
-
-    if (fs.existsSync(hashFilePath)) {
-      existingHash = fs.readFileSync(hashFilePath, 'utf-8');
-    }
-
-    const currentSchemaHash = this.generateSchemaHash(this.schema);
-
-    if (existingHash === currentSchemaHash) {
-      console.log('No changes in schema detected. Types file not updated.');
-      return;
-    }
-    for (const [modelName, modelSchema] of Object.entries(this.schema)) {
-      const fields = Object.entries(modelSchema.fields)
-        .map(
-          ([fieldName, fieldType]) =>
-            `${fieldName}: ${this.sqlTypeToTsType(fieldType)};`
-        )
-        .join('\n  ');
-
-      const relations = modelSchema.relations
-        ? Object.entries(modelSchema.relations)
-            .map(([relationName, relation]) => {
-              let relationDef = `${relationName}: { type: '${relation.type}'; model: '${relation.model}'; foreignKey: '${relation.foreignKey}';`;
-              if (relation.onDelete) {
-                relationDef += ` onDelete: '${relation.onDelete}';`;
-              }
-              if (relation.onUpdate) {
-                relationDef += ` onUpdate: '${relation.onUpdate}';`;
-              }
-              relationDef += ' };';
-              return relationDef;
-            })
-            .join('\n    ')
-        : '';
-
-      const typeDefinition = `type ${modelName} = {
-      ${fields}
-      ${relations ? `relations: {\n    ${relations}\n  }` : ''}
-    };`;
-
-      types.push(typeDefinition);
-    }
-
-    const modelTypesDefinition = `type ModelTypes = {
-    ${Object.keys(this.schema)
-      .map((modelName) => `${modelName}: ${modelName};`)
-      .join('\n  ')}
-  };`;
-
-    types.push(modelTypesDefinition);
-
-    const updatedContent = `// Generated types start\n${types.join(
-      '\n\n'
-    )}\n// Generated types end\n`;
-
-    fs.writeFileSync(typesFilePath, updatedContent);
-    fs.writeFileSync(hashFilePath, currentSchemaHash);
-    console.log('Types generated and written to file.');
-  }
+  /** Runs a raw query: a string with its parameters, or a `sql` fragment. */
   public async query<T extends QueryResultRow = QueryResultRow>(
-    sql: string,
+    query: string | SqlFragment,
     params: any[] = []
   ): Promise<QueryResult<T>> {
     try {
-      const result = await this.pool.query<T>(sql, params);
+      const { text, values } = toQuery(query, params);
+      const result = await this.events.query<T>(this.pool, text, values, {
+        operation: 'query',
+      });
       return result;
     } catch (error) {
-      console.error('Error executing custom query:', error);
-      throw error;
+      throw toSquirmyError(error, { operation: 'query' });
     }
   }
+  /**
+   * Drops every table of the schema, including the junction tables `sync`
+   * creates. Keeps going when a table cannot be dropped and throws once the
+   * others are gone.
+   */
   public async dropTables() {
-    for (const modelName in this.schema) {
+    const tables = Object.keys({
+      ...this.schema,
+      ...junctionModels(this.schema),
+    });
+    const failed: string[] = [];
+    for (const modelName of tables) {
       try {
-        const result = await this.query(
-          `DROP TABLE IF EXISTS "${modelName}" CASCADE;`
+        await this.query(`DROP TABLE IF EXISTS "${modelName}" CASCADE;`);
+        this.events.logger.info(
+          `Table "${modelName}" has been deleted successfully.`
         );
-        console.log(`Table "${modelName}" has been deleted successfully.`);
       } catch (error) {
-        console.error(`Error deleting table "${modelName}":`, error);
+        failed.push(modelName);
+        this.events.logger.error(`Error deleting table "${modelName}":`, error);
       }
     }
-    return `Tables in ${Object.keys(this.schema).join(', ')} deleted`;
+    if (failed.length > 0) {
+      throw new Error(`Could not drop tables: ${failed.join(', ')}`);
+    }
+    return `Tables in ${tables.join(', ')} deleted`;
   }
 
-  private initializeModels() {
+  /**
+   * Creates every table of the schema, including undeclared manyToMany
+   * junction tables, with their keys, unique constraints, defaults and
+   * indexes. Tables are created in foreign key order in one transaction and
+   * existing ones are left as they are. Returns the statements, which with
+   * `dryRun` are only built and not run.
+   */
+  public async sync(options: SyncOptions = {}): Promise<string[]> {
+    const statements = syncStatements(this.schema);
+    if (options.dryRun) {
+      return statements;
+    }
+    await this.transaction(async (tx) => {
+      for (const statement of statements) {
+        await tx.query(statement);
+      }
+    });
+    this.events.logger.info(
+      `Schema synced: ${statements.length} statements run.`
+    );
+    return statements;
+  }
+
+  /**
+   * Runs the callback in a transaction. Every model on `tx.models` shares the
+   * transaction's client, nested `tx.transaction` calls become savepoints and
+   * serialization failures (SQLSTATE 40001) retry the whole callback.
+   */
+  public async transaction<R>(
+    callback: (tx: Transaction) => Promise<R>,
+    options: TransactionOptions = {}
+  ): Promise<R> {
+    return this.runTransaction(callback, options);
+  }
+
+  /**
+   * Models confined to the given column values. Every model with one of the
+   * columns only reads, updates and deletes rows that have the value, and
+   * `create` fills it in. Writes that would set a scoped column to another
+   * value throw a `ScopeViolationError`. With `settings`, each statement runs
+   * in a transaction that first sets those Postgres settings to the scope's
+   * values, so row-level security policies can check them too.
+   */
+  public scoped(
+    values: ScopeValues,
+    options: ScopeOptions = {}
+  ): ScopedSquirmy {
+    const scope = createScope(this.schema, values, options);
+    return {
+      models: this.createModels(this.pool, scope),
+      transaction: (callback, transactionOptions = {}) =>
+        this.runTransaction(callback, transactionOptions, scope),
+    };
+  }
+
+  private async runTransaction<R>(
+    callback: (tx: Transaction) => Promise<R>,
+    options: TransactionOptions,
+    scope?: ModelScope
+  ): Promise<R> {
+    return runInTransaction(
+      this.pool,
+      async (client) => {
+        await applyScopeSettings(client, scope);
+        return callback(
+          new Transaction(client, this.createModels(client, scope), this.events)
+        );
+      },
+      options
+    );
+  }
+
+  private createModels(pool: Pool | PoolClient, scope?: ModelScope) {
+    const models = {} as {
+      [K in keyof ModelTypes]: QueryBuilder<K>;
+    };
     for (const modelName in this.schema) {
-      (this.models as any)[modelName] = new QueryBuilder(
+      (models as any)[modelName] = new QueryBuilder(
         modelName,
-        this.pool,
-        this.schema
+        pool,
+        this.schema,
+        {
+          cache: this.cache,
+          hooks: this.hooks,
+          validator: this.validator,
+          instrumentation: this.events,
+          scope,
+        }
       );
+    }
+    return models;
+  }
+
+  private initializeModels() {
+    for (const modelName in this.schema) {
       Object.defineProperty(this, modelName, {
         get: () => (this.models as any)[modelName],
       });
@@ -180,16 +260,19 @@ export default class Squirmy {
   public async close(): Promise<void> {
     try {
       await this.pool.end();
-      console.log('Database connection pool closed successfully.');
+      this.events.logger.info('Database connection pool closed successfully.');
     } catch (error) {
-      console.error('Error closing the database connection pool:', error);
+      this.events.logger.error(
+        'Error closing the database connection pool:',
+        error
+      );
       throw error;
     }
   }
 
   public async init(): Promise<void> {
-    console.log('Initializing Squirmy...');
-    await this.generateTypesFromSchema();
-    console.log('Squirmy initialized successfully.');
+    this.events.logger.info('Initializing Squirmy...');
+    await this.generateTypes();
+    this.events.logger.info('Squirmy initialized successfully.');
   }
 }
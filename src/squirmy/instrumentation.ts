@@ -0,0 +1,172 @@
+import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { performance } from 'perf_hooks';
+import type { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+const REDACTED = '[REDACTED]';
+
+type OperationContext = { model?: string; operation?: string };
+
+/**
+ * Runs every query issued by Squirmy, emitting `query:start`, `query:end`,
+ * `query:slow` and `query:error`. The model and operation of a query come
+ * from the enclosing `withOperation` call, so queries run while loading
+ * relations or inside hooks are attributed to the method that caused them.
+ */
+export default class Instrumentation extends EventEmitter {
+  public logger: Logger;
+  private slowQueryThreshold?: number;
+  private redactParams: InstrumentationOptions['redactParams'];
+  private context = new AsyncLocalStorage<OperationContext>();
+
+  constructor(options: InstrumentationOptions = {}) {
+    super();
+    this.logger = leveled(options.logger ?? console, options.logLevel);
+    this.slowQueryThreshold = options.slowQueryThreshold;
+    this.redactParams = options.redactParams;
+  }
+
+  on<E extends keyof QueryEvents>(
+    event: E,
+    listener: (payload: QueryEvents[E]) => void
+  ): this {
+    return super.on(event, listener);
+  }
+
+  once<E extends keyof QueryEvents>(
+    event: E,
+    listener: (payload: QueryEvents[E]) => void
+  ): this {
+    return super.once(event, listener);
+  }
+
+  off<E extends keyof QueryEvents>(
+    event: E,
+    listener: (payload: QueryEvents[E]) => void
+  ): this {
+    return super.off(event, listener);
+  }
+
+  /**
+   * Times the callback and tags the queries it runs with the model and
+   * operation name.
+   */
+  async withOperation<R>(
+    model: string,
+    operation: string,
+    callback: () => Promise<R>
+  ): Promise<R> {
+    const start = performance.now();
+    const result = await this.context.run({ model, operation }, callback);
+    this.logger.debug(
+      `[${model}] ${operation} operation took ${elapsed(start)}ms`
+    );
+    return result;
+  }
+
+  async query<R extends QueryResultRow = any>(
+    client: Pool | PoolClient,
+    sql: string,
+    params: any[] = [],
+    context: OperationContext = {}
+  ): Promise<QueryResult<R>> {
+    const current = this.context.getStore();
+    const query = {
+      sql,
+      model: context.model ?? current?.model,
+      operation: context.operation ?? current?.operation,
+    };
+    const event: QueryEvent = { ...query, params: this.redact(params, query) };
+    const label = query.model ? `[${query.model}] ` : '';
+
+    this.publish('query:start', event);
+    const start = performance.now();
+    try {
+      const result = await client.query<R>(sql, params);
+      const end: QueryEndEvent = {
+        ...event,
+        durationMs: elapsed(start),
+        rowCount: result.rowCount ?? result.rows.length,
+      };
+      this.publish('query:end', end);
+      this.logger.debug(`${label}Query took ${end.durationMs}ms: ${sql}`, {
+        params: event.params,
+      });
+      if (
+        this.slowQueryThreshold !== undefined &&
+        end.durationMs >= this.slowQueryThreshold
+      ) {
+        this.publish('query:slow', end);
+        this.logger.warn(
+          `${label}Slow query took ${end.durationMs}ms: ${sql}`,
+          {
+            params: event.params,
+          }
+        );
+      }
+      return result;
+    } catch (error) {
+      this.publish('query:error', {
+        ...event,
+        durationMs: elapsed(start),
+        error,
+      });
+      this.logger.error(`${label}Query failed: ${sql}`, error);
+      throw error;
+    }
+  }
+
+  // A throwing listener must not fail the query it is observing.
+  private publish<E extends keyof QueryEvents>(
+    event: E,
+    payload: QueryEvents[E]
+  ): void {
+    try {
+      this.emit(event, payload);
+    } catch (error) {
+      this.logger.error(`Listener for "${event}" threw`, error);
+    }
+  }
+
+  private redact(
+    params: unknown[],
+    query: Omit<QueryEvent, 'params'>
+  ): unknown[] {
+    const redactParams = this.redactParams;
+    if (!redactParams) {
+      return params;
+    }
+    if (redactParams === true) {
+      return params.map(() => REDACTED);
+    }
+    return params.map((param, index) => redactParams(param, index, query));
+  }
+}
+
+function elapsed(start: number): number {
+  return parseFloat((performance.now() - start).toFixed(2));
+}
+
+/**
+ * Drops messages below the configured level before they reach the logger.
+ */
+function leveled(logger: Logger, level: LogLevel = 'info'): Logger {
+  const threshold = LEVELS.indexOf(level);
+  if (threshold === -1) {
+    throw new Error(`Invalid log level: ${level}`);
+  }
+  const at =
+    (name: Exclude<LogLevel, 'silent'>) =>
+    (message: string, ...meta: unknown[]) => {
+      if (LEVELS.indexOf(name) >= threshold) {
+        logger[name](message, ...meta);
+      }
+    };
+  return {
+    debug: at('debug'),
+    info: at('info'),
+    warn: at('warn'),
+    error: at('error'),
+  };
+}
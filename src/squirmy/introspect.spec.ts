@@ -0,0 +1,221 @@
+import { describe, expect, setDefaultTimeout, test } from 'bun:test';
+import { PGlite } from '@electric-sql/pglite';
+import type { Pool } from 'pg';
+import { introspectDatabase, schemaFromSnapshot } from './introspect';
+import { diffSchema } from './migrations';
+import { normalizeSchema } from './schema';
+import { syncStatements } from './sync';
+
+// Starting a PGlite database takes a few seconds.
+setDefaultTimeout(30_000);
+
+// Runs queries against an in-memory PGlite database, as a pool would.
+function database(): { db: PGlite; pool: Pool } {
+  const db = new PGlite();
+  const pool = {
+    query: (text: string, values?: any[]) => db.query(text, values),
+  } as unknown as Pool;
+  return { db, pool };
+}
+
+function column(
+  name: string,
+  options: Partial<ColumnSnapshot> = {}
+): ColumnSnapshot {
+  return {
+    name,
+    dataType: 'integer',
+    udtName: 'int4',
+    nullable: false,
+    default: null,
+    maxLength: null,
+    numericPrecision: 32,
+    numericScale: 0,
+    type: 'integer',
+    generation: null,
+    ...options,
+  };
+}
+
+function table(
+  columns: ColumnSnapshot[],
+  options: Partial<TableSnapshot> = {}
+): TableSnapshot {
+  return {
+    columns: Object.fromEntries(columns.map((column) => [column.name, column])),
+    primaryKey: ['id'],
+    uniqueConstraints: [],
+    foreignKeys: [],
+    indexes: [],
+    ...options,
+  };
+}
+
+function foreignKey(
+  tableName: string,
+  columnName: string,
+  referencedTable: string,
+  options: Partial<ForeignKeySnapshot> = {}
+): ForeignKeySnapshot {
+  return {
+    name: `${tableName}_${columnName}_fkey`,
+    columns: [columnName],
+    referencedTable,
+    referencedColumns: ['id'],
+    definition: `FOREIGN KEY ("${columnName}") REFERENCES "${referencedTable}"(id)`,
+    ...options,
+  };
+}
+
+const serial = (tableName: string) =>
+  column('id', { default: `nextval('"${tableName}_id_seq"'::regclass)` });
+
+describe('schemaFromSnapshot', () => {
+  test('turns foreign keys and junction tables into relations', () => {
+    const schema = schemaFromSnapshot({
+      User: table([serial('User')]),
+      Profile: table([serial('Profile'), column('userId')], {
+        uniqueConstraints: [
+          { name: 'Profile_userId_key', columns: ['userId'] },
+        ],
+        foreignKeys: [
+          foreignKey('Profile', 'userId', 'User', { onDelete: 'CASCADE' }),
+        ],
+      }),
+      Post: table([serial('Post'), column('authorId', { nullable: true })], {
+        foreignKeys: [foreignKey('Post', 'authorId', 'User')],
+      }),
+      Tag: table([serial('Tag')]),
+      PostTag: table([column('postId'), column('tagId')], {
+        primaryKey: ['postId', 'tagId'],
+        foreignKeys: [
+          foreignKey('PostTag', 'postId', 'Post'),
+          foreignKey('PostTag', 'tagId', 'Tag'),
+        ],
+      }),
+      squirmy_migrations: table([column('version', { dataType: 'text' })]),
+    });
+
+    expect(Object.keys(schema)).toEqual([
+      'User',
+      'Profile',
+      'Post',
+      'Tag',
+      'PostTag',
+    ]);
+    expect(schema.Profile).toMatchObject({
+      fields: { id: 'serial', userId: 'integer' },
+      primaryKey: 'id',
+      required: ['userId'],
+      unique: ['userId'],
+    });
+    expect(schema.Profile.relations).toEqual({
+      user: {
+        type: 'belongsTo',
+        model: 'User',
+        foreignKey: 'userId',
+        references: 'id',
+        onDelete: 'CASCADE',
+      },
+    });
+    expect(schema.User.relations).toEqual({
+      profile: {
+        type: 'hasOne',
+        model: 'Profile',
+        foreignKey: 'userId',
+        references: 'id',
+      },
+      posts: {
+        type: 'hasMany',
+        model: 'Post',
+        foreignKey: 'authorId',
+        references: 'id',
+      },
+    });
+    expect(schema.Post.relations?.author).toMatchObject({
+      type: 'belongsTo',
+      model: 'User',
+    });
+    expect(schema.Post.relations?.tags).toEqual({
+      type: 'manyToMany',
+      model: 'Tag',
+      foreignKey: 'postId',
+      junctionTable: 'PostTag',
+      relatedKey: 'tagId',
+      references: 'id',
+    });
+    expect(schema.Tag.relations?.posts).toEqual({
+      type: 'manyToMany',
+      model: 'Post',
+      foreignKey: 'tagId',
+      junctionTable: 'PostTag',
+      relatedKey: 'postId',
+      references: 'id',
+    });
+  });
+});
+
+describe('introspection', () => {
+  test('reads a database back into a schema that diffs clean', async () => {
+    const { db, pool } = database();
+    await db.exec(`
+      CREATE TABLE "Author" (
+        id BIGSERIAL PRIMARY KEY,
+        "externalId" UUID NOT NULL,
+        name TEXT NOT NULL,
+        handle VARCHAR(40) UNIQUE,
+        rating SMALLINT,
+        followers BIGINT DEFAULT 0,
+        balance NUMERIC(10,2),
+        ratio REAL,
+        tags TEXT[],
+        profile JSON
+      );
+      CREATE TABLE "Post" (
+        id SERIAL PRIMARY KEY,
+        "authorId" BIGINT REFERENCES "Author" (id) ON DELETE CASCADE,
+        title VARCHAR NOT NULL,
+        body TEXT,
+        "searchVector" TSVECTOR GENERATED ALWAYS AS (
+          setweight(to_tsvector('english'::regconfig, coalesce("title"::text, '')), 'A') ||
+          setweight(to_tsvector('english'::regconfig, coalesce("body"::text, '')), 'D')
+        ) STORED
+      );
+      CREATE INDEX "Post_searchVector_idx" ON "Post" USING GIN ("searchVector");
+      CREATE INDEX "Author_tags_idx" ON "Author" USING GIN (tags);
+    `);
+
+    const snapshot = await introspectDatabase(pool);
+    const schema = schemaFromSnapshot(snapshot);
+
+    expect(schema.Author.fields).toMatchObject({
+      id: 'bigserial',
+      externalId: 'uuid',
+      name: 'text',
+      handle: 'varchar(40)',
+      rating: 'smallint',
+      followers: 'bigint',
+      balance: 'numeric(10,2)',
+      ratio: 'real',
+      tags: 'text[]',
+      profile: 'json',
+    });
+    expect(schema.Author.indexes).toEqual([
+      { name: 'Author_tags_idx', fields: ['tags'], using: 'gin' },
+    ]);
+    expect(schema.Post.search).toEqual({
+      fields: { title: 'A', body: 'D' },
+      language: 'english',
+      column: 'searchVector',
+    });
+    expect(diffSchema(normalizeSchema(schema), snapshot)).toEqual([]);
+
+    // The schema also creates a database it matches.
+    const copy = database();
+    for (const statement of syncStatements(normalizeSchema(schema))) {
+      await copy.db.exec(statement);
+    }
+    const copied = await introspectDatabase(copy.pool);
+    expect(diffSchema(normalizeSchema(schema), copied)).toEqual([]);
+  });
+});
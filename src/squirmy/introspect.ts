@@ -0,0 +1,450 @@
+import type { Pool, PoolClient } from 'pg';
+import { normalizeExpression, searchVectorExpression } from './ddl';
+
+const referentialActions: Record<string, OnDeleteAction> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+};
+
+/**
+ * Reads tables, columns, constraints and indexes of a Postgres schema from
+ * information_schema and pg_catalog.
+ */
+export async function introspectDatabase(
+  pool: Pool | PoolClient,
+  dbSchema: string = 'public'
+): Promise<DatabaseSnapshot> {
+  const snapshot: DatabaseSnapshot = {};
+  const tableFor = (name: string): TableSnapshot =>
+    (snapshot[name] ??= {
+      columns: {},
+      primaryKey: [],
+      uniqueConstraints: [],
+      foreignKeys: [],
+      indexes: [],
+    });
+
+  const { rows: columns } = await pool.query(
+    `SELECT c.table_name, c.column_name, c.data_type, c.udt_name,
+            c.is_nullable, c.column_default, c.character_maximum_length,
+            c.numeric_precision, c.numeric_scale, c.generation_expression,
+            format_type(a.atttypid, a.atttypmod) AS column_type
+       FROM information_schema.columns c
+       JOIN pg_attribute a
+         ON a.attrelid = format('%I.%I', c.table_schema, c.table_name)::regclass
+        AND a.attname = c.column_name
+      WHERE c.table_schema = $1
+      ORDER BY c.table_name, c.ordinal_position`,
+    [dbSchema]
+  );
+  for (const column of columns) {
+    tableFor(column.table_name).columns[column.column_name] = {
+      name: column.column_name,
+      dataType: column.data_type,
+      udtName: column.udt_name,
+      nullable: column.is_nullable === 'YES',
+      default: column.column_default,
+      maxLength: column.character_maximum_length,
+      numericPrecision: column.numeric_precision,
+      numericScale: column.numeric_scale,
+      type: column.column_type,
+      generation: column.generation_expression,
+    };
+  }
+
+  const { rows: constraints } = await pool.query(
+    `SELECT c.conname AS name, c.contype AS type, t.relname AS table_name,
+            ARRAY(SELECT a.attname::text
+                    FROM unnest(c.conkey) WITH ORDINALITY k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+                   ORDER BY k.ord) AS columns,
+            rt.relname AS referenced_table,
+            ARRAY(SELECT a.attname::text
+                    FROM unnest(c.confkey) WITH ORDINALITY k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.attnum
+                   ORDER BY k.ord) AS referenced_columns,
+            c.confdeltype AS on_delete, c.confupdtype AS on_update,
+            pg_get_constraintdef(c.oid) AS definition
+       FROM pg_constraint c
+       JOIN pg_class t ON t.oid = c.conrelid
+       JOIN pg_namespace n ON n.oid = t.relnamespace
+       LEFT JOIN pg_class rt ON rt.oid = c.confrelid
+      WHERE n.nspname = $1 AND c.contype IN ('p', 'u', 'f')
+      ORDER BY t.relname, c.conname`,
+    [dbSchema]
+  );
+  for (const constraint of constraints) {
+    const table = tableFor(constraint.table_name);
+    if (constraint.type === 'p') {
+      table.primaryKey = constraint.columns;
+    } else if (constraint.type === 'u') {
+      table.uniqueConstraints.push({
+        name: constraint.name,
+        columns: constraint.columns,
+      });
+    } else {
+      table.foreignKeys.push({
+        name: constraint.name,
+        columns: constraint.columns,
+        referencedTable: constraint.referenced_table,
+        referencedColumns: constraint.referenced_columns,
+        onDelete: referentialActions[constraint.on_delete],
+        onUpdate: referentialActions[constraint.on_update],
+        definition: constraint.definition,
+      });
+    }
+  }
+
+  const { rows: indexes } = await pool.query(
+    `SELECT t.relname AS table_name, i.relname AS name,
+            ix.indisunique AS is_unique, am.amname AS method,
+            ARRAY(SELECT a.attname::text
+                    FROM unnest(ix.indkey::int2[]) WITH ORDINALITY k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+                   ORDER BY k.ord) AS columns,
+            pg_get_indexdef(ix.indexrelid) AS definition,
+            EXISTS (
+              SELECT 1 FROM pg_constraint c
+               WHERE c.conindid = ix.indexrelid AND c.conrelid = t.oid
+                 AND c.contype IN ('p', 'u', 'x')
+            ) AS constraint_backed
+       FROM pg_index ix
+       JOIN pg_class i ON i.oid = ix.indexrelid
+       JOIN pg_am am ON am.oid = i.relam
+       JOIN pg_class t ON t.oid = ix.indrelid
+       JOIN pg_namespace n ON n.oid = t.relnamespace
+      WHERE n.nspname = $1
+      ORDER BY t.relname, i.relname`,
+    [dbSchema]
+  );
+  for (const index of indexes) {
+    tableFor(index.table_name).indexes.push({
+      name: index.name,
+      columns: index.columns,
+      unique: index.is_unique,
+      method: index.method,
+      constraintBacked: index.constraint_backed,
+      definition: index.definition,
+    });
+  }
+
+  return snapshot;
+}
+
+const fieldTypes: Record<string, string> = {
+  'character varying': 'varchar',
+  text: 'text',
+  uuid: 'uuid',
+  smallint: 'smallint',
+  integer: 'integer',
+  bigint: 'bigint',
+  real: 'real',
+  'double precision': 'double precision',
+  numeric: 'numeric',
+  boolean: 'boolean',
+  date: 'date',
+  'timestamp without time zone': 'timestamp',
+  'timestamp with time zone': 'timestamptz',
+  json: 'json',
+  jsonb: 'jsonb',
+  tsvector: 'tsvector',
+};
+
+// Tables Squirmy keeps for itself.
+const internalTables = new Set(['squirmy_migrations']);
+
+function fieldType(column: ColumnSnapshot): string {
+  if (isSerial(column)) {
+    return column.dataType === 'bigint' ? 'bigserial' : 'serial';
+  }
+  if (column.dataType === 'character varying' && column.maxLength !== null) {
+    return `varchar(${column.maxLength})`;
+  }
+  if (column.dataType === 'numeric' && column.numericPrecision !== null) {
+    return `numeric(${column.numericPrecision},${column.numericScale})`;
+  }
+  // Types Squirmy has no name for keep their Postgres name.
+  return fieldTypes[column.dataType] ?? column.type;
+}
+
+// Only integer and bigint sequence columns are serial; others keep their
+// nextval() default as an expression.
+function isSerial(column: ColumnSnapshot): boolean {
+  return (
+    (column.dataType === 'integer' || column.dataType === 'bigint') &&
+    /^nextval\(/.test(column.default ?? '')
+  );
+}
+
+const SEARCH_TERM =
+  /to_tsvector\('((?:[^']|'')*)'::regconfig, COALESCE\(\(?("(?:[^"]|"")*"|\w+)\)?(?:::[\w ]+)?, ''::text\)\), '([A-D])'/g;
+
+/**
+ * Reads a generated tsvector column back into a `search` option. Only
+ * columns whose expression is exactly what Squirmy would generate for it
+ * qualify; others stay plain tsvector fields.
+ */
+function searchFromColumn(column: ColumnSnapshot): SearchConfig | undefined {
+  if (column.dataType !== 'tsvector' || !column.generation) {
+    return undefined;
+  }
+  const terms = [...column.generation.matchAll(SEARCH_TERM)];
+  if (terms.length === 0) {
+    return undefined;
+  }
+  const search: SearchConfig = {
+    fields: Object.fromEntries(
+      terms.map(([, , field, weight]) => [
+        field.replace(/^"|"$/g, '').replace(/""/g, '"'),
+        weight as SearchWeight,
+      ])
+    ),
+    language: terms[0][1].replace(/''/g, "'"),
+    column: column.name,
+  };
+  const expression = searchVectorExpression({
+    fields: {},
+    search,
+  } as Schema[string]);
+  return normalizeExpression(expression) ===
+    normalizeExpression(column.generation)
+    ? search
+    : undefined;
+}
+
+/**
+ * Reads a column default back into the schema: plain literals as values and
+ * anything else as a `{ sql }` expression. Sequences are covered by the
+ * serial type and NULL defaults are left out.
+ */
+function columnDefault(column: ColumnSnapshot): ColumnDefault | undefined {
+  const raw = column.default;
+  if (raw === null || isSerial(column) || /^NULL(::|$)/i.test(raw)) {
+    return undefined;
+  }
+  const text = /^'((?:[^']|'')*)'(::[\w\s."]+)?$/.exec(raw);
+  if (text) {
+    return text[1].replace(/''/g, "'");
+  }
+  if (/^-?\d+(\.\d+)?$/.test(raw)) {
+    return Number(raw);
+  }
+  if (raw === 'true' || raw === 'false') {
+    return raw === 'true';
+  }
+  return { sql: raw };
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function plural(name: string): string {
+  return name.endsWith('s') ? name : `${name}s`;
+}
+
+// `authorId`, `author_id` and `authorid` all name the relation `author`.
+function relationNameFromColumn(column: string): string {
+  return column.replace(/_?id$/i, '');
+}
+
+function uniqueName(taken: Set<string>, base: string, fallback: string) {
+  let name = base && !taken.has(base) ? base : fallback;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${fallback}${suffix}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * A junction table holds nothing but the two foreign keys that make up its
+ * primary key, besides columns the database fills in itself.
+ */
+function junctionKeys(
+  table: TableSnapshot
+): [ForeignKeySnapshot, ForeignKeySnapshot] | null {
+  const foreignKeys = table.foreignKeys.filter(
+    (foreignKey) => foreignKey.columns.length === 1
+  );
+  if (foreignKeys.length !== 2 || table.foreignKeys.length !== 2) {
+    return null;
+  }
+  const keyColumns = foreignKeys.map((foreignKey) => foreignKey.columns[0]);
+  if (
+    table.primaryKey.length !== 2 ||
+    !keyColumns.every((column) => table.primaryKey.includes(column))
+  ) {
+    return null;
+  }
+  const others = Object.values(table.columns).filter(
+    (column) => !keyColumns.includes(column.name)
+  );
+  if (others.some((column) => !column.nullable && column.default === null)) {
+    return null;
+  }
+  return [foreignKeys[0], foreignKeys[1]];
+}
+
+function referentialOptions(foreignKey: ForeignKeySnapshot) {
+  return {
+    ...(foreignKey.onDelete && foreignKey.onDelete !== 'NO ACTION'
+      ? { onDelete: foreignKey.onDelete }
+      : {}),
+    ...(foreignKey.onUpdate && foreignKey.onUpdate !== 'NO ACTION'
+      ? { onUpdate: foreignKey.onUpdate }
+      : {}),
+  };
+}
+
+/**
+ * Builds a schema from a database snapshot. Single-column foreign keys become
+ * a belongsTo on the referencing table and a hasMany (hasOne when the column
+ * is unique) on the referenced one. Junction tables also link the two tables
+ * they join with manyToMany relations.
+ */
+export function schemaFromSnapshot(snapshot: DatabaseSnapshot): Schema {
+  const schema: Schema = {};
+  const takenNames: Record<string, Set<string>> = {};
+  const tables = Object.entries(snapshot).filter(
+    ([tableName]) => !internalTables.has(tableName)
+  );
+
+  for (const [tableName, table] of tables) {
+    const columns = Object.values(table.columns);
+    const fields: Record<string, string> = {};
+    const defaults: Record<string, ColumnDefault> = {};
+    // A search column is implied by the `search` option.
+    const search = columns
+      .map(searchFromColumn)
+      .find((config) => config !== undefined);
+    for (const column of columns) {
+      if (column.name === search?.column) continue;
+      fields[column.name] = fieldType(column);
+      const value = columnDefault(column);
+      if (value !== undefined) {
+        defaults[column.name] = value;
+      }
+    }
+
+    const unique = table.uniqueConstraints
+      .filter(({ columns }) => columns.length === 1)
+      .map(({ columns }) => columns[0]);
+    const indexes: Index[] = [
+      ...table.uniqueConstraints
+        .filter(({ columns }) => columns.length > 1)
+        .map(({ name, columns }) => ({ name, fields: columns, unique: true })),
+      ...table.indexes
+        // Expression indexes have no plain columns to list.
+        .filter((index) => !index.constraintBacked && index.columns.length > 0)
+        .map(({ name, columns, unique, method }) => ({
+          name,
+          fields: columns,
+          ...(unique ? { unique } : {}),
+          ...(method !== 'btree' ? { using: method as Index['using'] } : {}),
+        })),
+    ];
+
+    // Tables without a key are left on the "id" fallback.
+    const primaryKey =
+      table.primaryKey.length === 1 ? table.primaryKey[0] : table.primaryKey;
+    const model = {
+      fields,
+      ...(table.primaryKey.length > 0 ? { primaryKey } : {}),
+      required: columns
+        .filter(
+          (column) =>
+            !column.nullable &&
+            !table.primaryKey.includes(column.name) &&
+            column.name in fields
+        )
+        .map((column) => column.name),
+      relations: {},
+    } as Schema[string];
+    if (search) model.search = search;
+    if (unique.length > 0) model.unique = unique;
+    if (Object.keys(defaults).length > 0) model.defaults = defaults;
+    if (indexes.length > 0) model.indexes = indexes;
+
+    schema[tableName] = model;
+    takenNames[tableName] = new Set(Object.keys(fields));
+  }
+
+  const addRelation = (
+    tableName: string,
+    name: string,
+    fallback: string,
+    relation: Relation
+  ) => {
+    const relationName = uniqueName(takenNames[tableName], name, fallback);
+    schema[tableName].relations![relationName] = relation;
+  };
+
+  for (const [tableName, table] of tables) {
+    for (const foreignKey of table.foreignKeys) {
+      const target = foreignKey.referencedTable;
+      if (foreignKey.columns.length !== 1 || !schema[target]) continue;
+      const [column] = foreignKey.columns;
+      const [references] = foreignKey.referencedColumns;
+
+      addRelation(
+        tableName,
+        relationNameFromColumn(column),
+        lowerFirst(target),
+        {
+          type: 'belongsTo',
+          model: target,
+          foreignKey: column,
+          references,
+          ...referentialOptions(foreignKey),
+        }
+      );
+
+      const single =
+        schema[tableName].unique?.includes(column) ||
+        (table.primaryKey.length === 1 && table.primaryKey[0] === column);
+      // A second key into the same table is named after its column, as in
+      // `editorPosts` for posts.editor_id.
+      const children = plural(lowerFirst(tableName));
+      addRelation(
+        target,
+        single ? lowerFirst(tableName) : children,
+        `${relationNameFromColumn(column) || lowerFirst(tableName)}${children
+          .charAt(0)
+          .toUpperCase()}${children.slice(1)}`,
+        {
+          type: single ? 'hasOne' : 'hasMany',
+          model: tableName,
+          foreignKey: column,
+          references,
+        }
+      );
+    }
+
+    const junction = junctionKeys(table);
+    if (!junction) continue;
+    for (const [own, other] of [junction, [...junction].reverse()]) {
+      if (!schema[own.referencedTable] || !schema[other.referencedTable]) {
+        continue;
+      }
+      const name = plural(lowerFirst(other.referencedTable));
+      addRelation(own.referencedTable, name, `${name}Via${tableName}`, {
+        type: 'manyToMany',
+        model: other.referencedTable,
+        foreignKey: own.columns[0],
+        junctionTable: tableName,
+        relatedKey: other.columns[0],
+        references: own.referencedColumns[0],
+      });
+    }
+  }
+
+  for (const model of Object.values(schema)) {
+    if (Object.keys(model.relations!).length === 0) {
+      delete model.relations;
+    }
+  }
+  return schema;
+}
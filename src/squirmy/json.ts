@@ -0,0 +1,68 @@
+const updateOperators = new Set(['jsonSet', 'jsonMerge', 'jsonRemove']);
+
+export function isJsonType(fieldType: SchemaField | undefined): boolean {
+  const type = String(fieldType).toLowerCase();
+  return type === 'json' || type === 'jsonb';
+}
+
+/** Splits a dotted path into the text[] that `#>`, `#-` and jsonb_set take. */
+export function jsonPath(path: string): string[] {
+  const segments = path.split('.');
+  if (segments.some((segment) => segment === '')) {
+    throw new Error(`Invalid JSON path "${path}"`);
+  }
+  return segments;
+}
+
+/** Whether an update value is a partial JSON update rather than a new value. */
+export function isJsonUpdate(value: unknown): value is JsonUpdate {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => updateOperators.has(key));
+}
+
+/**
+ * The expression a JSON column is set to for a partial update. The object
+ * in `jsonMerge` is merged in first, then the `jsonSet` paths are written,
+ * creating missing parent objects, and the `jsonRemove` paths removed. A
+ * NULL column starts out as `{}`.
+ */
+export function jsonUpdateExpression(
+  column: string,
+  update: JsonUpdate,
+  params: any[]
+): string {
+  let expression = `coalesce(${column}, '{}'::jsonb)`;
+  if (update.jsonMerge !== undefined) {
+    params.push(JSON.stringify(update.jsonMerge));
+    expression = `(${expression} || $${params.length}::jsonb)`;
+  }
+  for (const [path, value] of Object.entries(update.jsonSet ?? {})) {
+    const segments = jsonPath(path);
+    params.push(segments);
+    const pathParam = params.length;
+    params.push(JSON.stringify(value));
+    const valueParam = params.length;
+    if (segments.length === 1) {
+      expression = `jsonb_set(${expression}, $${pathParam}::text[], $${valueParam}::jsonb)`;
+      continue;
+    }
+    // jsonb_set only creates the last key of a path, so each missing parent
+    // is set to {} first. The document is bound once to keep the SQL linear.
+    let document = 'document';
+    for (let depth = 1; depth < segments.length; depth++) {
+      params.push(segments.slice(0, depth));
+      const parent = `$${params.length}::text[]`;
+      document = `jsonb_set(${document}, ${parent}, coalesce(document #> ${parent}, '{}'::jsonb))`;
+    }
+    expression = `(SELECT jsonb_set(${document}, $${pathParam}::text[], $${valueParam}::jsonb) FROM (SELECT ${expression} AS document) AS json_set)`;
+  }
+  const removed = update.jsonRemove ?? [];
+  for (const path of Array.isArray(removed) ? removed : [removed]) {
+    params.push(jsonPath(path));
+    expression = `(${expression} #- $${params.length}::text[])`;
+  }
+  return expression;
+}
@@ -0,0 +1,240 @@
+import { primaryKeyColumns } from './ddl';
+import { isJsonType } from './json';
+import { DELETED_AT, isSearchableType, searchConfig } from './schema';
+import { shapeType } from './typegen';
+
+const KNOWN_TYPES = new Set([
+  'varchar',
+  'text',
+  'uuid',
+  'smallint',
+  'integer',
+  'bigint',
+  'serial',
+  'bigserial',
+  'numeric',
+  'float',
+  'real',
+  'double precision',
+  'boolean',
+  'date',
+  'timestamp',
+  'timestamptz',
+  'json',
+  'jsonb',
+  'tsvector',
+]);
+// Known types that also take a length or precision.
+const SIZED_TYPE = /^(varchar|numeric)\s*\(\s*\d+\s*(,\s*\d+\s*)?\)$/;
+
+const RELATION_TYPES = new Set([
+  'hasMany',
+  'hasOne',
+  'belongsTo',
+  'manyToMany',
+]);
+
+/**
+ * Checks a schema for mistakes that would only surface once a query runs:
+ * fields lists naming columns that do not exist, relations pointing at
+ * missing models or columns, and types Squirmy does not know. Unknown types
+ * are warnings since they are still created as TEXT.
+ */
+export function lintSchema(schema: Schema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  if (schema === null || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [
+      {
+        severity: 'error',
+        model: '',
+        path: '',
+        message: 'the schema must be an object of models',
+      },
+    ];
+  }
+
+  for (const [modelName, model] of Object.entries(schema)) {
+    const error = (path: string, message: string) =>
+      issues.push({ severity: 'error', model: modelName, path, message });
+    const warning = (path: string, message: string) =>
+      issues.push({ severity: 'warning', model: modelName, path, message });
+
+    if (!model.fields || typeof model.fields !== 'object') {
+      error('fields', 'is missing');
+      continue;
+    }
+    const fields = model.fields;
+    const checkFields = (path: string, names: unknown) => {
+      if (names === undefined) return;
+      if (!Array.isArray(names)) {
+        error(path, 'must be a list of fields');
+        return;
+      }
+      for (const name of names) {
+        if (!(name in fields)) {
+          error(path, `"${name}" is not a field`);
+        }
+      }
+    };
+
+    for (const [field, fieldType] of Object.entries(fields)) {
+      const type = String(fieldType).toLowerCase();
+      if (!KNOWN_TYPES.has(type) && !SIZED_TYPE.test(type)) {
+        warning(
+          `fields.${field}`,
+          `unknown type "${fieldType}" is used as the Postgres column type`
+        );
+      }
+    }
+
+    checkFields('primaryKey', primaryKeyColumns(model));
+    checkFields('required', model.required);
+    checkFields('hidden', model.hidden);
+    checkFields('unique', model.unique);
+    checkFields('defaults', Object.keys(model.defaults || {}));
+    checkFields('validate', Object.keys(model.validate || {}));
+    if (
+      model.softDelete &&
+      DELETED_AT in fields &&
+      !['timestamp', 'timestamptz'].includes(
+        String(fields[DELETED_AT]).toLowerCase()
+      )
+    ) {
+      error(`fields.${DELETED_AT}`, 'must be a timestamp to use softDelete');
+    }
+
+    if (model.search) {
+      const search = searchConfig(model)!;
+      for (const [field, weight] of Object.entries(search.fields)) {
+        if (!(field in fields)) {
+          error('search.fields', `"${field}" is not a field`);
+        } else if (!isSearchableType(fields[field])) {
+          error(`search.fields.${field}`, 'must be a text or varchar field');
+        } else if (!['A', 'B', 'C', 'D'].includes(weight)) {
+          error(`search.fields.${field}`, 'weight must be A, B, C or D');
+        }
+      }
+      if (
+        search.column in fields &&
+        String(fields[search.column]).toLowerCase() !== 'tsvector'
+      ) {
+        error('search.column', `"${search.column}" is not a tsvector field`);
+      }
+    }
+
+    for (const [field, shape] of Object.entries(model.shapes || {})) {
+      if (!(field in fields)) {
+        error('shapes', `"${field}" is not a field`);
+      } else if (!isJsonType(fields[field])) {
+        error(`shapes.${field}`, 'only json and jsonb fields take a shape');
+      } else {
+        try {
+          shapeType(shape);
+        } catch (cause) {
+          error(`shapes.${field}`, (cause as Error).message);
+        }
+      }
+    }
+
+    const indexNames = new Set<string>();
+    (model.indexes || []).forEach((index, position) => {
+      const path = `indexes[${position}]`;
+      if (!index.name) {
+        error(path, 'needs a name');
+      } else if (indexNames.has(index.name)) {
+        error(path, `index name "${index.name}" is used twice`);
+      }
+      indexNames.add(index.name);
+      if (!Array.isArray(index.fields) || index.fields.length === 0) {
+        error(`${path}.fields`, 'must list at least one field');
+        return;
+      }
+      checkFields(`${path}.fields`, index.fields);
+    });
+
+    for (const [relationName, relation] of Object.entries(
+      model.relations || {}
+    )) {
+      const path = `relations.${relationName}`;
+      if (!RELATION_TYPES.has(relation.type)) {
+        error(`${path}.type`, `unknown relation type "${relation.type}"`);
+        continue;
+      }
+      const related = schema[relation.model];
+      if (!related) {
+        error(`${path}.model`, `model "${relation.model}" does not exist`);
+        continue;
+      }
+      if (!relation.foreignKey) {
+        error(`${path}.foreignKey`, 'is missing');
+        continue;
+      }
+
+      switch (relation.type) {
+        case 'belongsTo': {
+          if (!(relation.foreignKey in fields)) {
+            error(
+              `${path}.foreignKey`,
+              `"${relation.foreignKey}" is not a field`
+            );
+          }
+          const references = relation.references
+            ? [String(relation.references)]
+            : primaryKeyColumns(related);
+          if (references.length > 1) {
+            error(
+              `${path}.references`,
+              `"${relation.model}" has a composite primary key; set references`
+            );
+          } else if (!(references[0] in related.fields)) {
+            error(
+              `${path}.references`,
+              `"${references[0]}" is not a field of "${relation.model}"`
+            );
+          }
+          break;
+        }
+        case 'hasMany':
+        case 'hasOne':
+          if (!(relation.foreignKey in related.fields)) {
+            error(
+              `${path}.foreignKey`,
+              `"${relation.foreignKey}" is not a field of "${relation.model}"`
+            );
+          }
+          if (relation.references && !(relation.references in fields)) {
+            error(
+              `${path}.references`,
+              `"${relation.references}" is not a field`
+            );
+          }
+          break;
+        case 'manyToMany': {
+          if (!relation.junctionTable || !relation.relatedKey) {
+            error(path, 'manyToMany needs junctionTable and relatedKey');
+            break;
+          }
+          const junction = schema[relation.junctionTable];
+          for (const column of [relation.foreignKey, relation.relatedKey]) {
+            if (junction && !(column in junction.fields)) {
+              error(
+                path,
+                `"${column}" is not a field of "${relation.junctionTable}"`
+              );
+            }
+          }
+          if (relation.references && !(relation.references in fields)) {
+            error(
+              `${path}.references`,
+              `"${relation.references}" is not a field`
+            );
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return issues;
+}
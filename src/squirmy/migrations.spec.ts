@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Pool } from 'pg';
+import Migrator, { diffSchema } from './migrations';
+
+const silent = { info() {}, warn() {}, error() {}, debug() {} };
+
+function column(
+  name: string,
+  dataType: string,
+  options: Partial<ColumnSnapshot> = {}
+): ColumnSnapshot {
+  return {
+    name,
+    dataType,
+    udtName: dataType,
+    nullable: true,
+    default: null,
+    maxLength: null,
+    numericPrecision: null,
+    numericScale: null,
+    type: dataType,
+    generation: null,
+    ...options,
+  };
+}
+
+const schema = {
+  User: {
+    fields: { id: 'serial', name: 'varchar(100)', bio: 'text' },
+    required: ['name'],
+    indexes: [{ name: 'User_name_idx', fields: ['name'] }],
+  },
+  Post: {
+    fields: { id: 'serial', userId: 'integer' },
+    relations: {
+      user: {
+        type: 'belongsTo',
+        model: 'User',
+        foreignKey: 'userId',
+        onDelete: 'CASCADE',
+      },
+    },
+  },
+} as unknown as Schema;
+
+function snapshot(): DatabaseSnapshot {
+  return {
+    User: {
+      columns: {
+        id: column('id', 'integer', {
+          nullable: false,
+          default: `nextval('"User_id_seq"'::regclass)`,
+        }),
+        name: column('name', 'character varying', {
+          nullable: false,
+          maxLength: 100,
+          type: 'character varying(100)',
+        }),
+        bio: column('bio', 'text'),
+      },
+      primaryKey: ['id'],
+      uniqueConstraints: [],
+      foreignKeys: [],
+      indexes: [
+        {
+          name: 'User_name_idx',
+          columns: ['name'],
+          unique: false,
+          method: 'btree',
+          constraintBacked: false,
+          definition:
+            'CREATE INDEX "User_name_idx" ON public."User" USING btree (name)',
+        },
+      ],
+    },
+    Post: {
+      columns: {
+        id: column('id', 'integer', { nullable: false }),
+        userId: column('userId', 'integer'),
+      },
+      primaryKey: ['id'],
+      uniqueConstraints: [],
+      foreignKeys: [
+        {
+          name: 'Post_userId_fkey',
+          columns: ['userId'],
+          referencedTable: 'User',
+          referencedColumns: ['id'],
+          onDelete: 'CASCADE',
+          definition:
+            'FOREIGN KEY ("userId") REFERENCES "User"(id) ON DELETE CASCADE',
+        },
+      ],
+      indexes: [],
+    },
+  };
+}
+
+describe('diffSchema', () => {
+  test('finds nothing to do when the database matches the schema', () => {
+    expect(diffSchema(schema, snapshot())).toEqual([]);
+  });
+
+  test('creates missing tables and adds their foreign keys afterwards', () => {
+    const live = snapshot();
+    delete live.Post;
+
+    const steps = diffSchema(schema, live);
+
+    expect(steps.map(({ down }) => down)).toEqual([
+      'DROP TABLE "Post"',
+      'ALTER TABLE "Post" DROP CONSTRAINT "Post_userId_fkey"',
+    ]);
+    expect(steps[0].up).toStartWith('CREATE TABLE "Post"');
+    expect(steps[0].up).not.toContain('REFERENCES');
+  });
+
+  test('adds, changes and drops columns', () => {
+    const live = snapshot();
+    delete live.User.columns.bio;
+    live.User.columns.name = column('name', 'character varying', {
+      maxLength: 50,
+      type: 'character varying(50)',
+    });
+    live.User.columns.age = column('age', 'integer');
+
+    expect(diffSchema(schema, live)).toEqual([
+      {
+        up: 'ALTER TABLE "User" ADD COLUMN "bio" VARCHAR',
+        down: 'ALTER TABLE "User" DROP COLUMN "bio"',
+      },
+      {
+        up: 'ALTER TABLE "User" ALTER COLUMN "name" TYPE VARCHAR(100) USING "name"::VARCHAR(100)',
+        down: 'ALTER TABLE "User" ALTER COLUMN "name" TYPE character varying(50) USING "name"::character varying(50)',
+      },
+      {
+        up: 'ALTER TABLE "User" ALTER COLUMN "name" SET NOT NULL',
+        down: 'ALTER TABLE "User" ALTER COLUMN "name" DROP NOT NULL',
+      },
+      {
+        up: 'ALTER TABLE "User" DROP COLUMN "age"',
+        down: 'ALTER TABLE "User" ADD COLUMN "age" integer',
+      },
+    ]);
+  });
+
+  test('replaces foreign keys and indexes whose definition changed', () => {
+    const live = snapshot();
+    live.Post.foreignKeys[0].onDelete = undefined;
+    live.User.indexes[0].method = 'hash';
+
+    const steps = diffSchema(schema, live);
+
+    expect(steps.map(({ up }) => up)).toEqual([
+      'ALTER TABLE "Post" DROP CONSTRAINT "Post_userId_fkey"',
+      'DROP INDEX "User_name_idx"',
+      'ALTER TABLE "Post" ADD CONSTRAINT "Post_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE',
+      'CREATE INDEX "User_name_idx" ON "User" ("name")',
+    ]);
+    expect(steps[1].down).toBe(live.User.indexes[0].definition);
+  });
+});
+
+describe('Migrator', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'squirmy-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('reports the migration error when ROLLBACK fails', async () => {
+    fs.writeFileSync(
+      path.join(directory, '20240101000000000_broken.up.sql'),
+      'BROKEN SQL'
+    );
+    const migrationError = new Error('syntax error');
+    const released: unknown[] = [];
+    const client = {
+      async query(text: string) {
+        if (text === 'BROKEN SQL') throw migrationError;
+        if (text === 'ROLLBACK' || text.includes('unlock')) {
+          throw new Error('connection terminated');
+        }
+        return { rows: [], rowCount: 0 };
+      },
+      release(error?: unknown) {
+        released.push(error);
+      },
+    };
+    const pool = { connect: async () => client } as unknown as Pool;
+    const migrator = new Migrator(pool, {} as Schema, directory, silent);
+
+    await expect(migrator.up()).rejects.toBe(migrationError);
+    expect(released).toHaveLength(1);
+    expect(released[0]).toBeInstanceOf(Error);
+  });
+});
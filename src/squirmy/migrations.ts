@@ -0,0 +1,531 @@
+import type { Pool, PoolClient } from 'pg';
+import fs from 'fs';
+import path from 'path';
+import { introspectDatabase } from './introspect';
+import {
+  belongsToRelations,
+  columnDefinition,
+  createIndexStatement,
+  createTableStatement,
+  foreignKeyDefinition,
+  foreignKeyName,
+  normalizeExpression,
+  primaryKeyColumns,
+  referencedColumn,
+  searchVectorExpression,
+  sqlTypeFromSchemaType,
+} from './ddl';
+import { searchConfig } from './schema';
+import { junctionModels } from './sync';
+
+const MIGRATIONS_TABLE = 'squirmy_migrations';
+// Shared by every process migrating the same database, so only one runs at a time.
+const MIGRATION_LOCK_KEY = 4_815_162_342;
+// Versions had second resolution before they got milliseconds.
+const MIGRATION_FILE_PATTERN = /^(\d{17}|\d{14})_(.+)\.(up|down)\.sql$/;
+
+// How information_schema reports each type produced by sqlTypeFromSchemaType.
+const informationSchemaTypes: Record<string, string> = {
+  VARCHAR: 'character varying',
+  SMALLINT: 'smallint',
+  INTEGER: 'integer',
+  BIGINT: 'bigint',
+  NUMERIC: 'numeric',
+  FLOAT: 'double precision',
+  BOOLEAN: 'boolean',
+  DATE: 'date',
+  TIMESTAMP: 'timestamp without time zone',
+  TIMESTAMPTZ: 'timestamp with time zone',
+  TSVECTOR: 'tsvector',
+  JSONB: 'jsonb',
+};
+
+// Column types a field also accepts besides the one it is created with.
+// `introspect` reads these columns back as the field type of the same name.
+const acceptedTypes: Record<string, string[]> = {
+  text: ['text'],
+  uuid: ['uuid'],
+  real: ['real'],
+  json: ['json'],
+};
+
+// The length or precision of a column, written as in its type.
+function columnSize(column: ColumnSnapshot): string | null {
+  if (column.dataType === 'numeric' && column.numericPrecision !== null) {
+    return `${column.numericPrecision},${column.numericScale}`;
+  }
+  return column.maxLength === null ? null : String(column.maxLength);
+}
+
+function columnTypeMatches(
+  fieldType: SchemaField,
+  column: ColumnSnapshot
+): boolean {
+  if (
+    acceptedTypes[String(fieldType).toLowerCase()]?.includes(column.dataType)
+  ) {
+    return true;
+  }
+  const expected = sqlTypeFromSchemaType(String(fieldType));
+  const [, base, size] = /^([A-Z]+)(?:\((.*)\))?$/.exec(expected) ?? [];
+  if (!base || !(base in informationSchemaTypes)) {
+    // Other Postgres types are compared as Postgres writes them.
+    const normalize = (type: string) =>
+      type.toLowerCase().replace(/\s+/g, ' ').trim();
+    return normalize(expected) === normalize(column.type);
+  }
+  if (informationSchemaTypes[base] !== column.dataType) {
+    return false;
+  }
+  // Lengths and precisions are only compared when the field gives one.
+  if (!size || (base !== 'VARCHAR' && base !== 'NUMERIC')) {
+    return true;
+  }
+  return (
+    (base === 'NUMERIC' && !size.includes(',') ? `${size},0` : size) ===
+    columnSize(column)
+  );
+}
+
+/**
+ * Compares the loaded schema with a snapshot of the live database and returns
+ * the steps needed to bring the database in line, ordered so that each `up`
+ * can run after the previous one. Running the `down`s in reverse undoes them.
+ */
+export function diffSchema(
+  schema: Schema,
+  snapshot: DatabaseSnapshot
+): MigrationStep[] {
+  // Includes the junction tables `sync` creates for manyToMany relations.
+  const models: Schema = { ...schema, ...junctionModels(schema) };
+  const createTables: MigrationStep[] = [];
+  const addColumns: MigrationStep[] = [];
+  const alterColumns: MigrationStep[] = [];
+  const dropForeignKeys: MigrationStep[] = [];
+  const dropIndexes: MigrationStep[] = [];
+  const regenerateColumns: MigrationStep[] = [];
+  const dropColumns: MigrationStep[] = [];
+  const addForeignKeys: MigrationStep[] = [];
+  const createIndexes: MigrationStep[] = [];
+
+  for (const [modelName, model] of Object.entries(models)) {
+    const live = snapshot[modelName];
+    const table = `"${modelName}"`;
+    // Generated columns whose expression changed, which are dropped and added
+    // again along with their indexes.
+    const regenerated = new Set<string>();
+
+    if (!live) {
+      // Foreign keys are added once every table exists, so creation order
+      // between models does not matter.
+      createTables.push({
+        up: createTableStatement(modelName, models, {
+          foreignKeys: false,
+          ifNotExists: false,
+        }),
+        down: `DROP TABLE ${table}`,
+      });
+    } else {
+      for (const fieldName of Object.keys(model.fields)) {
+        const column = live.columns[fieldName];
+        if (!column) {
+          addColumns.push({
+            up: `ALTER TABLE ${table} ADD COLUMN ${columnDefinition(
+              modelName,
+              models,
+              fieldName
+            )}`,
+            down: `ALTER TABLE ${table} DROP COLUMN "${fieldName}"`,
+          });
+          continue;
+        }
+
+        // A generation expression cannot be altered in place.
+        if (searchConfig(model)?.column === fieldName) {
+          const expression = searchVectorExpression(model);
+          if (
+            !column.generation ||
+            normalizeExpression(column.generation) !==
+              normalizeExpression(expression)
+          ) {
+            regenerated.add(fieldName);
+            regenerateColumns.push({
+              up: `ALTER TABLE ${table} DROP COLUMN "${fieldName}", ADD COLUMN ${columnDefinition(
+                modelName,
+                models,
+                fieldName
+              )}`,
+              down: `ALTER TABLE ${table} DROP COLUMN "${fieldName}", ADD COLUMN "${fieldName}" ${
+                column.type
+              }${
+                column.generation
+                  ? ` GENERATED ALWAYS AS (${column.generation}) STORED`
+                  : ''
+              }`,
+            });
+            continue;
+          }
+        }
+
+        if (!columnTypeMatches(model.fields[fieldName], column)) {
+          const expectedType = sqlTypeFromSchemaType(model.fields[fieldName]);
+          alterColumns.push({
+            up: `ALTER TABLE ${table} ALTER COLUMN "${fieldName}" TYPE ${expectedType} USING "${fieldName}"::${expectedType}`,
+            down: `ALTER TABLE ${table} ALTER COLUMN "${fieldName}" TYPE ${column.type} USING "${fieldName}"::${column.type}`,
+          });
+        }
+
+        const expectedNullable =
+          !primaryKeyColumns(model).includes(fieldName) &&
+          !(model.required || []).includes(fieldName);
+        if (expectedNullable !== column.nullable) {
+          const setNotNull = `ALTER TABLE ${table} ALTER COLUMN "${fieldName}" SET NOT NULL`;
+          const dropNotNull = `ALTER TABLE ${table} ALTER COLUMN "${fieldName}" DROP NOT NULL`;
+          alterColumns.push(
+            expectedNullable
+              ? { up: dropNotNull, down: setNotNull }
+              : { up: setNotNull, down: dropNotNull }
+          );
+        }
+      }
+
+      for (const column of Object.values(live.columns)) {
+        if (column.name in model.fields) continue;
+        // The data itself cannot be brought back, only the column.
+        dropColumns.push({
+          up: `ALTER TABLE ${table} DROP COLUMN "${column.name}"`,
+          down: `ALTER TABLE ${table} ADD COLUMN "${column.name}" ${
+            column.type
+          }${column.default ? ` DEFAULT ${column.default}` : ''}`,
+        });
+      }
+    }
+
+    const liveForeignKeys = live?.foreignKeys ?? [];
+    const matchedForeignKeys = new Set<ForeignKeySnapshot>();
+    for (const relation of belongsToRelations(modelName, models)) {
+      const references = referencedColumn(models, relation);
+      const match = liveForeignKeys.find(
+        (foreignKey) =>
+          foreignKey.columns.length === 1 &&
+          foreignKey.columns[0] === relation.foreignKey &&
+          foreignKey.referencedTable === relation.model &&
+          foreignKey.referencedColumns[0] === references &&
+          (foreignKey.onDelete ?? 'NO ACTION') ===
+            (relation.onDelete ?? 'NO ACTION') &&
+          (foreignKey.onUpdate ?? 'NO ACTION') ===
+            (relation.onUpdate ?? 'NO ACTION')
+      );
+      if (match) {
+        matchedForeignKeys.add(match);
+        continue;
+      }
+      const constraintName = foreignKeyName(modelName, relation.foreignKey);
+      addForeignKeys.push({
+        up: `ALTER TABLE ${table} ADD CONSTRAINT "${constraintName}" ${foreignKeyDefinition(
+          modelName,
+          models,
+          relation
+        )}`,
+        down: `ALTER TABLE ${table} DROP CONSTRAINT "${constraintName}"`,
+      });
+    }
+    for (const foreignKey of liveForeignKeys) {
+      if (matchedForeignKeys.has(foreignKey)) continue;
+      dropForeignKeys.push({
+        up: `ALTER TABLE ${table} DROP CONSTRAINT "${foreignKey.name}"`,
+        down: `ALTER TABLE ${table} ADD CONSTRAINT "${foreignKey.name}" ${foreignKey.definition}`,
+      });
+    }
+
+    const liveIndexes = (live?.indexes ?? []).filter(
+      (index) => !index.constraintBacked
+    );
+    const expectedIndexes = model.indexes || [];
+    for (const index of expectedIndexes) {
+      const liveIndex = liveIndexes.find(({ name }) => name === index.name);
+      if (
+        liveIndex &&
+        liveIndex.unique === !!index.unique &&
+        liveIndex.method === (index.using ?? 'btree') &&
+        liveIndex.columns.join(',') === index.fields.join(',') &&
+        !index.fields.some((field) => regenerated.has(field))
+      ) {
+        continue;
+      }
+      if (liveIndex) {
+        dropIndexes.push({
+          up: `DROP INDEX "${liveIndex.name}"`,
+          down: liveIndex.definition,
+        });
+      }
+      createIndexes.push({
+        up: createIndexStatement(modelName, index),
+        down: `DROP INDEX "${index.name}"`,
+      });
+    }
+    for (const liveIndex of liveIndexes) {
+      if (expectedIndexes.some(({ name }) => name === liveIndex.name)) continue;
+      dropIndexes.push({
+        up: `DROP INDEX "${liveIndex.name}"`,
+        down: liveIndex.definition,
+      });
+    }
+  }
+
+  return [
+    ...createTables,
+    ...addColumns,
+    ...alterColumns,
+    ...dropForeignKeys,
+    ...dropIndexes,
+    ...regenerateColumns,
+    ...dropColumns,
+    ...addForeignKeys,
+    ...createIndexes,
+  ];
+}
+
+export default class Migrator {
+  private pool: Pool;
+  private schema: Schema;
+  private directory: string;
+  private logger: Logger;
+
+  constructor(
+    pool: Pool,
+    schema: Schema,
+    directory: string = 'migrations',
+    logger: Logger = console
+  ) {
+    this.pool = pool;
+    this.schema = schema;
+    this.directory = path.resolve(directory);
+    this.logger = logger;
+  }
+
+  async diff(): Promise<MigrationStep[]> {
+    const snapshot = await introspectDatabase(this.pool);
+    return diffSchema(this.schema, snapshot);
+  }
+
+  /**
+   * Writes a migration for the difference between the schema file and the
+   * live database. Returns null when they already match.
+   */
+  async generate(name: string): Promise<Migration | null> {
+    const steps = await this.diff();
+    if (steps.length === 0) {
+      this.logger.info('No schema changes detected. No migration generated.');
+      return null;
+    }
+    return this.create(name, steps);
+  }
+
+  create(name: string, steps: MigrationStep[] = []): Migration {
+    const version = this.nextVersion();
+    const slug = name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '');
+    const migration: Migration = {
+      version,
+      name: slug,
+      upPath: path.join(this.directory, `${version}_${slug}.up.sql`),
+      downPath: path.join(this.directory, `${version}_${slug}.down.sql`),
+    };
+
+    const toSql = (statements: string[]) =>
+      statements.map((statement) => `${statement};\n`).join('\n');
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(migration.upPath, toSql(steps.map(({ up }) => up)));
+    fs.writeFileSync(
+      migration.downPath,
+      toSql([...steps].reverse().map(({ down }) => down))
+    );
+    this.logger.info(
+      `Migration ${version}_${slug} created in ${this.directory}`
+    );
+    return migration;
+  }
+
+  /**
+   * The current time to the millisecond. A version that is not past the
+   * newest migration, from two migrations created in the same millisecond or
+   * a clock running behind, becomes the one after it instead.
+   */
+  private nextVersion(): string {
+    const version = new Date().toISOString().replace(/\D/g, '').slice(0, 17);
+    const latest = this.list().at(-1)?.version;
+    if (latest && version <= latest) {
+      return String(BigInt(latest.padEnd(17, '0')) + 1n);
+    }
+    return version;
+  }
+
+  list(): Migration[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    const migrations = new Map<string, Migration>();
+    for (const file of fs.readdirSync(this.directory).sort()) {
+      const match = MIGRATION_FILE_PATTERN.exec(file);
+      if (!match) continue;
+      const [, version, name] = match;
+      const base = path.join(this.directory, `${version}_${name}`);
+      migrations.set(version, {
+        version,
+        name,
+        upPath: `${base}.up.sql`,
+        downPath: `${base}.down.sql`,
+      });
+    }
+    // By version rather than file name, which sorts a second-resolution
+    // version after millisecond ones from the same second.
+    return [...migrations.values()].sort((a, b) =>
+      a.version < b.version ? -1 : a.version > b.version ? 1 : 0
+    );
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.appliedVersions(client);
+      return this.list().map((migration) => ({
+        ...migration,
+        appliedAt: applied.get(migration.version) ?? null,
+      }));
+    });
+  }
+
+  /**
+   * Applies every pending migration in version order, each in its own
+   * transaction.
+   */
+  async up(): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.appliedVersions(client);
+      const pending = this.list().filter(
+        ({ version }) => !applied.has(version)
+      );
+      for (const migration of pending) {
+        await this.run(client, migration.upPath, async () => {
+          await client.query(
+            `INSERT INTO "${MIGRATIONS_TABLE}" (version, name) VALUES ($1, $2)`,
+            [migration.version, migration.name]
+          );
+        });
+        this.logger.info(
+          `Applied migration ${migration.version}_${migration.name}`
+        );
+      }
+      return pending;
+    });
+  }
+
+  /**
+   * Reverts the most recently applied migrations, newest first.
+   */
+  async down(steps: number = 1): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.appliedVersions(client);
+      const migrations = this.list();
+      const toRevert = [...applied.keys()]
+        .sort()
+        .reverse()
+        .slice(0, steps)
+        .map((version) => {
+          const migration = migrations.find((m) => m.version === version);
+          if (!migration) {
+            throw new Error(
+              `Migration file for applied version ${version} not found in ${this.directory}`
+            );
+          }
+          return migration;
+        });
+
+      for (const migration of toRevert) {
+        await this.run(client, migration.downPath, async () => {
+          await client.query(
+            `DELETE FROM "${MIGRATIONS_TABLE}" WHERE version = $1`,
+            [migration.version]
+          );
+        });
+        this.logger.info(
+          `Reverted migration ${migration.version}_${migration.name}`
+        );
+      }
+      return toRevert;
+    });
+  }
+
+  private async run(
+    client: PoolClient,
+    filePath: string,
+    record: () => Promise<void>
+  ): Promise<void> {
+    const sql = fs.readFileSync(filePath, 'utf-8');
+    try {
+      await client.query('BEGIN');
+      if (sql.trim()) {
+        await client.query(sql);
+      }
+      await record();
+      await client.query('COMMIT');
+    } catch (error) {
+      // The migration's error is the one reported. A connection that cannot
+      // roll back fails the unlock too, and withLock then discards it.
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        this.logger.error(
+          `Error rolling back migration ${filePath}:`,
+          rollbackError
+        );
+      }
+      this.logger.error(`Error running migration ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  private async appliedVersions(
+    client: PoolClient
+  ): Promise<Map<string, Date>> {
+    const { rows } = await client.query(
+      `SELECT version, "appliedAt" FROM "${MIGRATIONS_TABLE}" ORDER BY version`
+    );
+    return new Map(rows.map((row) => [row.version, row.appliedAt]));
+  }
+
+  private async withLock<R>(
+    callback: (client: PoolClient) => Promise<R>
+  ): Promise<R> {
+    const client = await this.pool.connect();
+    let broken: Error | undefined;
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      try {
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS "${MIGRATIONS_TABLE}" (
+            version VARCHAR PRIMARY KEY,
+            name VARCHAR NOT NULL,
+            "appliedAt" TIMESTAMP NOT NULL DEFAULT now()
+          )
+        `);
+        return await callback(client);
+      } finally {
+        // Discarding the client ends its session, which releases the lock.
+        try {
+          await client.query('SELECT pg_advisory_unlock($1)', [
+            MIGRATION_LOCK_KEY,
+          ]);
+        } catch (error) {
+          broken = error as Error;
+        }
+      }
+    } finally {
+      client.release(broken);
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { describe, expect, setDefaultTimeout, test } from 'bun:test';
+import { PGlite } from '@electric-sql/pglite';
+import { Pool, type PoolClient } from 'pg';
+// @ts-expect-error pg ships no declarations for its internal helpers.
+import { prepareValue } from 'pg/lib/utils';
+import QueryCache from './cache';
+import { createTableStatement } from './ddl';
+import QueryBuilder from './querybuilder';
+
+// Starting a PGlite database takes a few seconds.
+setDefaultTimeout(30_000);
+
+const schema = {
+  Post: {
+    fields: { id: 'integer', title: 'text', views: 'integer' },
+    primaryKey: 'id',
+  },
+} as unknown as Schema;
+
+// Answers every statement with the rows `respond` picks and records it.
+function fakeClient(respond: (text: string) => any[]) {
+  const statements: string[] = [];
+  const client = {
+    async query(text: string) {
+      statements.push(text);
+      const rows = respond(text);
+      return { rows, rowCount: rows.length };
+    },
+    release() {},
+  };
+  return { client: client as unknown as PoolClient, statements };
+}
+
+// A pool whose single client is an in-memory PGlite database. Values are
+// serialized the way pg serializes them.
+function database(): Pool {
+  const db = new PGlite();
+  const client = {
+    async query(text: string, values: any[] = []) {
+      const result = await db.query(text, values.map(prepareValue));
+      return { rows: result.rows, rowCount: result.affectedRows ?? 0 };
+    },
+    release() {},
+  };
+  const pool = new Pool();
+  pool.connect = (async () => client) as any;
+  pool.query = client.query as any;
+  return pool;
+}
+
+describe('cursorPaginate', () => {
+  test('counts the total with a custom orderBy', async () => {
+    const { client, statements } = fakeClient((text) =>
+      text.includes('COUNT(*)')
+        ? [{ _count: 3 }]
+        : [
+            { id: 1, views: 30 },
+            { id: 2, views: 20 },
+            { id: 3, views: 10 },
+          ]
+    );
+    const posts = new QueryBuilder('Post' as keyof Schema, client, schema);
+
+    const page = await posts.cursorPaginate({
+      take: 2,
+      orderBy: { views: 'desc' },
+      withTotal: true,
+    });
+
+    expect(page.total).toBe(3);
+    expect(page.data.map((row) => row.id)).toEqual([1, 2]);
+    expect(page.hasNextPage).toBe(true);
+    const count = statements.find((text) => text.includes('COUNT(*)'));
+    expect(count).not.toContain('ORDER BY');
+    expect(count).not.toContain('LIMIT');
+  });
+});
+
+describe('cursorPaginate on a database', () => {
+  const eventSchema = {
+    Event: {
+      fields: { id: 'serial', at: 'timestamptz', score: 'integer' },
+      primaryKey: 'id',
+    },
+  } as unknown as Schema;
+
+  // Reads every page in turn, one row per page.
+  async function walk(
+    events: QueryBuilder<keyof Schema>,
+    options: Record<string, any>
+  ): Promise<number[]> {
+    const ids: number[] = [];
+    let cursor: string | null | undefined;
+    do {
+      const page = await events.cursorPaginate({
+        take: 1,
+        ...options,
+        ...(cursor ? { after: cursor } : {}),
+      } as any);
+      ids.push(...page.data.map((row: any) => row.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return ids;
+  }
+
+  async function seed(values: string): Promise<QueryBuilder<keyof Schema>> {
+    const pool = database();
+    await pool.query(createTableStatement('Event', eventSchema));
+    await pool.query(`INSERT INTO "Event" (at, score) VALUES ${values}`);
+    return new QueryBuilder('Event' as keyof Schema, pool, eventSchema);
+  }
+
+  test('keeps rows apart that differ by microseconds', async () => {
+    const events = await seed(
+      `('2024-01-01 00:00:00.000003+00', 0),
+       ('2024-01-01 00:00:00.000001+00', 0),
+       ('2024-01-01 00:00:00.000002+00', 0)`
+    );
+
+    expect(await walk(events, { orderBy: { at: 'desc' } })).toEqual([1, 3, 2]);
+  });
+
+  test('pages through NULLs in a nullable order column', async () => {
+    const events = await seed(
+      `(now(), NULL), (now(), 2), (now(), NULL), (now(), 1)`
+    );
+
+    expect(await walk(events, { orderBy: { score: 'asc' } })).toEqual([
+      4, 2, 1, 3,
+    ]);
+    expect(await walk(events, { orderBy: { score: 'desc' } })).toEqual([
+      1, 3, 2, 4,
+    ]);
+    const orderBy = { score: 'asc' };
+    const first = await events.cursorPaginate({ take: 3, orderBy } as any);
+    const last = await events.cursorPaginate({
+      take: 3,
+      orderBy,
+      after: first.nextCursor!,
+    } as any);
+    const back = await events.cursorPaginate({
+      take: 3,
+      orderBy,
+      before: last.prevCursor!,
+    } as any);
+    expect(last.data.map((row: any) => row.id)).toEqual([3]);
+    expect(back.data.map((row: any) => row.id)).toEqual([4, 2, 1]);
+  });
+});
+
+describe('upsert', () => {
+  const serialSchema = {
+    Tag: {
+      fields: { id: 'serial', name: 'text' },
+      primaryKey: 'id',
+    },
+  } as unknown as Schema;
+
+  test('conflicts on an explicit serial primary key', async () => {
+    const tags = new QueryBuilder(
+      'Tag' as keyof Schema,
+      database(),
+      serialSchema
+    );
+
+    await tags.upsert({ id: 1, name: 'old' } as any);
+    const tag = await tags.upsert({ id: 1, name: 'new' } as any);
+
+    expect(tag).toMatchObject({ id: 1, name: 'new' });
+    expect(await tags.query('SELECT * FROM "Tag"')).toEqual([
+      { id: 1, name: 'new' },
+    ]);
+  });
+});
+
+describe('JSON fields', () => {
+  const jsonSchema = {
+    User: {
+      fields: { id: 'serial', metadata: 'jsonb', tags: 'jsonb' },
+      primaryKey: 'id',
+    },
+  } as unknown as Schema;
+
+  test('writes arrays as JSON and builds missing parents in jsonSet', async () => {
+    const users = new QueryBuilder(
+      'User' as keyof Schema,
+      database(),
+      jsonSchema
+    );
+
+    const user = await users.create({
+      metadata: { plan: 'pro' },
+      tags: ['beta', 'admin'],
+    } as any);
+    const updated = await users.update(user.id, {
+      metadata: { jsonSet: { 'limits.seats': 25, 'limits.extra.on': true } },
+      tags: ['beta'],
+    } as any);
+
+    expect(updated.tags).toEqual(['beta']);
+    expect(updated.metadata).toEqual({
+      plan: 'pro',
+      limits: { seats: 25, extra: { on: true } },
+    });
+  });
+});
+
+describe('cache', () => {
+  const cascadeSchema = {
+    Author: { fields: { id: 'serial', name: 'text' }, primaryKey: 'id' },
+    Book: {
+      fields: { id: 'serial', authorId: 'integer' },
+      primaryKey: 'id',
+      relations: {
+        author: {
+          type: 'belongsTo',
+          model: 'Author',
+          foreignKey: 'authorId',
+          references: 'id',
+          onDelete: 'CASCADE',
+        },
+      },
+    },
+  } as unknown as Schema;
+
+  test('drops rows removed by an ON DELETE CASCADE', async () => {
+    const pool = database();
+    const options = { cache: new QueryCache() };
+    const authors = new QueryBuilder(
+      'Author' as keyof Schema,
+      pool,
+      cascadeSchema,
+      options
+    );
+    const books = new QueryBuilder(
+      'Book' as keyof Schema,
+      pool,
+      cascadeSchema,
+      options
+    );
+
+    const author = await authors.create({ name: 'Le Guin' } as any);
+    await books.create({ authorId: author.id } as any);
+    expect(await books.findAll()).toHaveLength(1);
+    await authors.delete(author.id);
+
+    expect(await books.findAll()).toEqual([]);
+  });
+});
@@ -1,7 +1,66 @@
-import { Pool, PoolClient } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
-import NodeCache from 'node-cache';
-import measureExecutionTime from './utils';
+import { decodeCursor, encodeCursor } from './utils';
+import {
+  createTableStatement,
+  primaryKeyColumns,
+  referencedColumn,
+} from './ddl';
+import { compileWhere } from './where';
+import {
+  aggregateSelections,
+  compileAggregateOrderBy,
+  compileHaving,
+  readAggregates,
+} from './aggregate';
+import { normalizeInclude } from './include';
+import { cursorBatches } from './cursor';
+import { isJsonType, isJsonUpdate, jsonUpdateExpression } from './json';
+import { SqlFragment, quoteIdentifier, sql, toQuery } from './sql';
+import { DELETED_AT, searchConfig, timestampColumns } from './schema';
+import { applyScopeSettings, hasScopeSettings } from './scope';
+import type { ModelScope } from './scope';
+import { afterCommit, runInSavepoint, runInTransaction } from './transaction';
+import { cascadingModels } from './sync';
+import type QueryCache from './cache';
+import type HookRegistry from './hooks';
+import Validator from './validation';
+import { NotFoundError, ScopeViolationError, toSquirmyError } from './errors';
+import Instrumentation from './instrumentation';
+
+// Postgres accepts at most 65535 bind parameters per statement.
+const MAX_PARAMETERS = 65535;
+const DEFAULT_BATCH_SIZE = 1000;
+const DEFAULT_FETCH_SIZE = 1000;
+
+// ts_headline takes its options as one "Name=value, ..." string.
+function headlineOptions(options: HighlightOptions): string {
+  const settings: [string, string | number | undefined][] = [
+    ['StartSel', options.startSel],
+    ['StopSel', options.stopSel],
+    ['MaxWords', options.maxWords],
+    ['MinWords', options.minWords],
+    ['MaxFragments', options.maxFragments],
+    ['FragmentDelimiter', options.fragmentDelimiter],
+  ];
+  return settings
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) =>
+      typeof value === 'number'
+        ? `${name}=${value}`
+        : `${name}="${String(value).replace(/"/g, '""')}"`
+    )
+    .join(', ');
+}
+
+export type QueryBuilderOptions = {
+  cache?: QueryCache;
+  hooks?: HookRegistry;
+  validator?: Validator;
+  instrumentation?: Instrumentation;
+  scope?: ModelScope;
+};
 
 export default class QueryBuilder<T extends keyof Schema> {
   protected table: T;
@@ -10,10 +69,24 @@ export default class QueryBuilder<T extends keyof Schema> {
   protected pool: Pool | PoolClient;
   protected required: string[];
   protected optional: string[];
+  protected hidden: string[];
   protected schema: Schema;
-  private cache: NodeCache;
-
-  constructor(table: T, pool: Pool, schema: Schema) {
+  private options: QueryBuilderOptions;
+  private validator: Validator;
+  private instrumentation: Instrumentation;
+  private tableCreated = false;
+  private softDeletes: boolean;
+  private cascadesSoftDeletes: boolean;
+  private timestamps: { createdAt?: string; updatedAt?: string };
+  // The scope values that apply to this model's columns.
+  private scopeValues: Record<string, unknown>;
+
+  constructor(
+    table: T,
+    pool: Pool | PoolClient,
+    schema: Schema,
+    options: QueryBuilderOptions = {}
+  ) {
     this.table = table;
     this.schema = schema;
     this.fields = schema[table].fields;
@@ -21,131 +94,105 @@ export default class QueryBuilder<T extends keyof Schema> {
     this.pool = pool;
     this.required = schema[table].required || [];
     this.optional = schema[table].optional || [];
-    this.cache = new NodeCache({ stdTTL: 600 }); // Cache with 10 minutes TTL
+    this.hidden = schema[table].hidden || [];
+    const { softDelete } = schema[table];
+    this.softDeletes = Boolean(softDelete);
+    this.cascadesSoftDeletes =
+      typeof softDelete === 'object' && Boolean(softDelete.cascade);
+    this.timestamps = timestampColumns(schema[table]);
+    this.options = options;
+    this.scopeValues = Object.fromEntries(
+      Object.entries(options.scope?.values ?? {}).filter(
+        ([field]) => field in this.fields
+      )
+    );
+    this.validator = options.validator ?? new Validator(schema);
+    this.instrumentation = options.instrumentation ?? new Instrumentation();
   }
 
-  async query(sql: string, params: any[] = []): Promise<any[]> {
+  /** Runs a raw query: a string with its parameters, or a `sql` fragment. */
+  async query(query: string | SqlFragment, params: any[] = []): Promise<any[]> {
     try {
-      const { rows } = await this.pool.query(sql, params);
+      const { text, values } = toQuery(query, params);
+      const { rows } = await this.execute(text, values);
       return rows;
     } catch (error) {
-      console.error('Query Error:', error);
-      throw error;
-    }
-  }
-  private sqlTypeFromSchemaType(schemaType: string): string {
-    switch (schemaType.toLowerCase()) {
-      case 'varchar':
-      case 'text':
-      case 'uuid':
-        return 'VARCHAR';
-      case 'integer':
-      case 'serial':
-        return 'INTEGER';
-      case 'float':
-      case 'real':
-      case 'double precision':
-        return 'FLOAT';
-      case 'boolean':
-        return 'BOOLEAN';
-      case 'date':
-        return 'DATE';
-      case 'timestamp':
-        return 'TIMESTAMP';
-      case 'json':
-      case 'jsonb':
-        return 'JSONB';
-      default:
-        return 'TEXT'; // Default to TEXT for unknown types
+      throw toSquirmyError(error, { model: String(this.table) });
     }
   }
 
-  private async createTableIfNotExists(): Promise<void> {
-    try {
-      const [result, executionTime] = await measureExecutionTime(async () => {
-        const columns = Object.entries(this.fields)
-          .map(([fieldName, fieldType]) => {
-            let columnDef = `"${fieldName}" ${this.sqlTypeFromSchemaType(
-              fieldType
-            )}`;
-            if (fieldName === 'id') {
-              columnDef += ' PRIMARY KEY';
-            } else if (this.required.includes(fieldName)) {
-              columnDef += ' NOT NULL';
-            } else if (fieldName === 'createdAt' || fieldName === 'updatedAt') {
-              columnDef += ' DEFAULT now()';
-            }
-            return columnDef;
-          })
-          .join(', ');
-
-        const foreignKeyConstraints = Object.entries(this.relations)
-          .filter(([, relation]) => relation.type === 'belongsTo')
-          .map(([relationName, relation]) => {
-            const foreignKeyField = this.fields[relation.foreignKey];
-            if (!foreignKeyField) {
-              throw new Error(
-                `Foreign key column "${relation.foreignKey}" not defined in fields`
-              );
-            }
-
-            const relatedModelSchema = this.schema[relation.model];
-            if (!relatedModelSchema) {
-              throw new Error(
-                `Related model "${relation.model}" not found in schema`
-              );
-            }
+  private async execute(sql: string, params: any[] = []): Promise<QueryResult> {
+    const run = (pool: Pool | PoolClient) =>
+      this.instrumentation.query(pool, sql, params, {
+        model: String(this.table),
+      });
+    // Scope settings only last until the transaction ends, so a statement on
+    // the pool gets a transaction of its own.
+    const { scope } = this.options;
+    if (this.pool instanceof Pool && hasScopeSettings(scope)) {
+      return runInTransaction(this.pool, async (client) => {
+        await applyScopeSettings(client, scope);
+        return run(client);
+      });
+    }
+    return run(this.pool);
+  }
 
-            const relatedModelPrimaryKey = relatedModelSchema.primaryKey;
-            if (!relatedModelPrimaryKey) {
-              throw new Error(
-                `Primary key for related model "${relation.model}" not defined`
-              );
-            }
+  // Times the operation and attributes the queries it runs to it.
+  private async measure<R>(
+    operation: string,
+    callback: () => Promise<R>
+  ): Promise<R> {
+    return this.instrumentation.withOperation(
+      String(this.table),
+      operation,
+      callback
+    );
+  }
 
-            let constraint = `, FOREIGN KEY ("${
-              relation.foreignKey
-            }") REFERENCES "${relation.model}" ("${
-              relation.references || relatedModelPrimaryKey
-            }")`;
-            if (relation.onDelete) {
-              constraint += ` ON DELETE ${relation.onDelete}`;
-            }
-            if (relation.onUpdate) {
-              constraint += ` ON UPDATE ${relation.onUpdate}`;
-            }
-            return constraint;
-          })
-          .join('');
-
-        // Create table query
-        const createTableQuery = `
-        CREATE TABLE IF NOT EXISTS "${this.table}" (
-          ${columns}${foreignKeyConstraints}
-        )
-      `;
-        await this.query(createTableQuery);
-      });
-      console.log(
-        `[${this.table}] Create table operation took ${executionTime}ms`
+  // Only remembered outside transactions, where the CREATE cannot roll back.
+  private async createTableIfNotExists(): Promise<void> {
+    if (this.tableCreated) {
+      return;
+    }
+    try {
+      await this.measure('createTable', () =>
+        this.query(createTableStatement(String(this.table), this.schema))
       );
+      this.tableCreated = this.pool instanceof Pool;
     } catch (error) {
-      console.error(`[${this.table}] Error creating table:`, error);
-      throw new Error(`There was an error creating a new table`);
+      throw toSquirmyError(error, {
+        model: String(this.table),
+        operation: 'createTable',
+      });
     }
   }
 
-  private processFields(data: Partial<ModelData<T>>): Record<string, any> {
+  private processFields(data: Record<string, any>): Record<string, any> {
     const processedData: Record<string, any> = {};
     for (const [field, value] of Object.entries(data)) {
       const fieldType = this.schema[this.table].fields[field];
       if (fieldType === 'uuid' && !value) {
         processedData[field] = uuidv4();
-      } else if (fieldType === 'serial') {
+      } else if (
+        (fieldType === 'serial' || fieldType === 'bigserial') &&
+        value === undefined
+      ) {
+        // Left to the column's sequence; explicit ids are kept.
       } else if (fieldType === 'integer') {
         processedData[field] = value === undefined ? null : Number(value);
-      } else if (fieldType === 'timestamp' && !value) {
+      } else if (
+        (fieldType === 'timestamp' || fieldType === 'timestamptz') &&
+        !value
+      ) {
         processedData[field] = new Date();
+      } else if (
+        isJsonType(fieldType) &&
+        value != null &&
+        !isJsonUpdate(value)
+      ) {
+        // pg would send arrays as Postgres arrays, not JSON.
+        processedData[field] = JSON.stringify(value);
       } else {
         processedData[field] = value;
       }
@@ -153,38 +200,217 @@ export default class QueryBuilder<T extends keyof Schema> {
     return processedData;
   }
 
+  // Sets the managed timestamps the caller left out: both on create, only
+  // updatedAt on update.
+  private withTimestamps(
+    data: Record<string, any>,
+    operation: 'create' | 'update'
+  ): Record<string, any> {
+    const { createdAt, updatedAt } = this.timestamps;
+    const now = new Date();
+    const stamped = { ...data };
+    if (operation === 'create' && createdAt && stamped[createdAt] == null) {
+      stamped[createdAt] = now;
+    }
+    if (updatedAt && stamped[updatedAt] == null) {
+      stamped[updatedAt] = now;
+    }
+    return stamped;
+  }
+
+  // Assignments of an UPDATE. JSON fields given a JsonUpdate are changed in
+  // place instead of replaced.
+  private setClause(data: Record<string, any>, params: any[]): string {
+    return Object.entries(data)
+      .map(([field, value]) => {
+        const column = quoteIdentifier(field);
+        if (isJsonType(this.fields[field]) && isJsonUpdate(value)) {
+          return `${column} = ${jsonUpdateExpression(column, value, params)}`;
+        }
+        params.push(value);
+        return `${column} = $${params.length}`;
+      })
+      .join(', ');
+  }
+
+  // Extra SET assignment for statements that write rows without going
+  // through withTimestamps.
+  private touchUpdatedAt(): string {
+    const { updatedAt } = this.timestamps;
+    return updatedAt ? `, "${updatedAt}" = NOW()` : '';
+  }
+
+  private whereConditions(
+    where: WhereClause<ModelData<T>> | undefined,
+    params: any[]
+  ): string {
+    return compileWhere(where, params, {
+      table: String(this.table),
+      fields: this.fields,
+    });
+  }
+
+  private buildWhere(
+    where: WhereClause<ModelData<T>> | undefined,
+    params: any[]
+  ): string {
+    const conditions = this.whereConditions(where, params);
+    return conditions ? ` WHERE ${conditions}` : '';
+  }
+
+  // Rows outside the builder's scope are left out of reads, and so are
+  // soft-deleted rows unless the scope asks for them.
+  private scopeConditions(scope: SoftDeleteScope, params: any[]): string[] {
+    const conditions = this.scopeValueConditions(params);
+    if (this.softDeletes && !scope.withDeleted) {
+      conditions.push(
+        `"${DELETED_AT}" IS ${scope.onlyDeleted ? 'NOT NULL' : 'NULL'}`
+      );
+    }
+    return conditions;
+  }
+
+  private scopeValueConditions(params: any[]): string[] {
+    return Object.entries(this.scopeValues).map(([field, value]) => {
+      params.push(value);
+      return `${quoteIdentifier(field)} = $${params.length}`;
+    });
+  }
+
+  // The conditions of a write, confined to the builder's scope.
+  private writeConditions(conditions: string, params: any[]): string {
+    const scoped = this.scopeValueConditions(params);
+    if (scoped.length === 0) {
+      return conditions;
+    }
+    return [`(${conditions})`, ...scoped].join(' AND ');
+  }
+
+  /**
+   * Fills the scope values into data being created and rejects data that
+   * would move a row out of the scope. Writes run it before their
+   * before-hooks, so the hooks see the values, and again after them, so the
+   * hooks cannot change them.
+   */
+  private withScopeValues<D>(data: D, operation: 'create' | 'update'): D {
+    const values = data as Record<string, any>;
+    for (const [field, value] of Object.entries(this.scopeValues)) {
+      if (
+        values[field] !== undefined &&
+        String(values[field]) !== String(value)
+      ) {
+        throw new ScopeViolationError(
+          `"${field}" is fixed to ${JSON.stringify(value)} by the scope`,
+          { model: String(this.table), operation, fields: [field] }
+        );
+      }
+    }
+    return operation === 'create'
+      ? ({ ...values, ...this.scopeValues } as D)
+      : data;
+  }
+
+  private readConditions(
+    where: WhereClause<ModelData<T>> | undefined,
+    params: any[],
+    scope: SoftDeleteScope
+  ): string {
+    const conditions = this.whereConditions(where, params);
+    const scoped = this.scopeConditions(scope, params);
+    if (scoped.length === 0) {
+      return conditions;
+    }
+    return [...(conditions ? [`(${conditions})`] : []), ...scoped].join(
+      ' AND '
+    );
+  }
+
+  private buildReadWhere(
+    where: WhereClause<ModelData<T>> | undefined,
+    params: any[],
+    scope: SoftDeleteScope
+  ): string {
+    const conditions = this.readConditions(where, params, scope);
+    return conditions ? ` WHERE ${conditions}` : '';
+  }
+
+  /**
+   * Runs the callback in a transaction. A builder that is already bound to a
+   * transaction client runs it in a savepoint instead.
+   */
   async withTransaction<R>(
-    callback: (client: PoolClient) => Promise<R>
+    callback: (client: PoolClient) => Promise<R>,
+    options: TransactionOptions = {}
   ): Promise<R> {
-    const client = await this.pool.connect();
-    if (!client) {
-      throw new Error('Failed to connect to the database');
+    if (this.pool instanceof Pool) {
+      const { scope } = this.options;
+      return runInTransaction(
+        this.pool,
+        async (client) => {
+          await applyScopeSettings(client, scope);
+          return callback(client);
+        },
+        options
+      );
     }
-    try {
-      await client.query('BEGIN');
-      const result = await callback(client);
-      await client.query('COMMIT');
-      return result;
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+    return runInSavepoint(this.pool, callback);
+  }
+
+  private bind(client: PoolClient): QueryBuilder<T> {
+    return new QueryBuilder(this.table, client, this.schema, this.options);
+  }
+
+  // Hooks are run from a builder bound to the write's transaction client.
+  private async runBeforeHook<V>(
+    name: HookName,
+    value: V,
+    context: Partial<HookContext> = {}
+  ): Promise<V> {
+    const { hooks } = this.options;
+    if (!hooks) {
+      return value;
     }
+    return hooks.runBefore(String(this.table), name, value, {
+      model: String(this.table),
+      client: this.pool as PoolClient,
+      ...context,
+    });
+  }
+
+  private async runAfterHook(
+    name: HookName,
+    value: unknown,
+    context: Partial<HookContext> = {}
+  ): Promise<void> {
+    await this.options.hooks?.runAfter(String(this.table), name, value, {
+      model: String(this.table),
+      client: this.pool as PoolClient,
+      ...context,
+    });
   }
 
   async create(
-    data: Partial<ModelData<T>>,
+    data: CreateData<T>,
     relations?: Record<string, any>
   ): Promise<ModelData<T>> {
     return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
       try {
-        const [result, executionTime] = await measureExecutionTime(async () => {
+        return await this.measure('create', async () => {
           await this.createTableIfNotExists();
 
-          this.validateData(data, 'create');
+          data = this.withScopeValues(
+            await tx.runBeforeHook(
+              'beforeCreate',
+              this.withScopeValues(data, 'create')
+            ),
+            'create'
+          );
+          await this.validator.validate(String(this.table), data, 'create');
 
-          const processedData: Record<string, any> = this.processFields(data);
+          const processedData: Record<string, any> = this.processFields(
+            this.withTimestamps(data, 'create')
+          );
 
           const keys = Object.keys(processedData);
           const values = Object.values(processedData);
@@ -193,14 +419,13 @@ export default class QueryBuilder<T extends keyof Schema> {
             .join(', ');
 
           const query = `
-          INSERT INTO "${this.table}" (${keys
-            .map((key) => `"${key}"`)
-            .join(', ')})
+          INSERT INTO "${this.table}" (${keys.map(quoteIdentifier).join(', ')})
           VALUES (${placeholders})
           RETURNING *
         `;
-          const result = await client.query(query, values);
+          const result = await tx.execute(query, values);
           const row = result.rows[0];
+          await tx.invalidateCache([this.primaryKeyValue(row)]);
 
           if (relations) {
             for (const [relationName, relationData] of Object.entries(
@@ -216,19 +441,19 @@ export default class QueryBuilder<T extends keyof Schema> {
               switch (relation.type) {
                 case 'hasMany':
                 case 'hasOne':
-                  await this.createRelatedRecords(
+                  await tx.createRelatedRecords(
                     relation,
-                    row.id,
+                    row[this.relationParentKey(relation)],
                     relationData
                   );
                   break;
                 case 'belongsTo':
-                  await this.updateForeignKey(relation, row.id, relationData);
+                  await tx.updateForeignKey(relation, row, relationData);
                   break;
                 case 'manyToMany':
-                  await this.createManyToManyRelation(
+                  await tx.createManyToManyRelation(
                     relation,
-                    row.id,
+                    row[this.relationParentKey(relation)],
                     relationData
                   );
                   break;
@@ -236,28 +461,276 @@ export default class QueryBuilder<T extends keyof Schema> {
             }
           }
 
-          return row;
+          await tx.runAfterHook('afterCreate', row);
+          return this.hideFields(row);
+        });
+      } catch (error) {
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation: 'create',
+        });
+      }
+    });
+  }
+
+  /**
+   * Inserts the rows with multi-row INSERT statements inside one transaction.
+   * Each row goes through the beforeCreate hooks and validation like `create`,
+   * but relations are not written.
+   */
+  async createMany(
+    rows: CreateData<T>[],
+    options: CreateManyOptions = {}
+  ): Promise<ModelData<T>[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
+      try {
+        return await this.measure('createMany', async () => {
+          await this.createTableIfNotExists();
+          const prepared = await tx.prepareInserts(rows);
+          const inserted = await tx.insertBatches(
+            prepared,
+            () => (options.skipDuplicates ? ' ON CONFLICT DO NOTHING' : ''),
+            options.batchSize
+          );
+          await tx.invalidateCache(
+            inserted.map((row) => this.primaryKeyValue(row))
+          );
+          for (const row of inserted) {
+            await tx.runAfterHook('afterCreate', row);
+          }
+          return inserted.map((row) => this.hideFields(row as ModelData<T>));
+        });
+      } catch (error) {
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation: 'createMany',
         });
+      }
+    });
+  }
+
+  async upsert(
+    data: CreateData<T>,
+    options: UpsertOptions<ModelData<T>> = {}
+  ): Promise<ModelData<T>> {
+    const [row] = await this.upsertRows([data], options, 'upsert');
+    return row;
+  }
+
+  async upsertMany(
+    rows: CreateData<T>[],
+    options: UpsertOptions<ModelData<T>> = {}
+  ): Promise<ModelData<T>[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    return this.upsertRows(rows, options, 'upsertMany');
+  }
 
-        console.log(`[${this.table}] Create operation took ${executionTime}ms`);
-        return result as ModelData<T>;
+  /**
+   * INSERT ... ON CONFLICT DO UPDATE. Rows run through the beforeCreate hooks
+   * and validation; afterCreate or afterUpdate runs depending on whether the
+   * row was inserted or updated.
+   */
+  private async upsertRows(
+    rows: CreateData<T>[],
+    options: UpsertOptions<ModelData<T>>,
+    operation: string
+  ): Promise<ModelData<T>[]> {
+    return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
+      try {
+        return await this.measure(operation, async () => {
+          await this.createTableIfNotExists();
+          const target = this.conflictColumns(options.conflictTarget);
+          const primaryKey = this.conflictColumns();
+          const prepared = await tx.prepareInserts(rows);
+          const onConflict = (columns: string[]) => {
+            const { createdAt, updatedAt } = this.timestamps;
+            const update = options.update
+              ? options.update.map(String)
+              : columns.filter(
+                  (column) =>
+                    !target.includes(column) &&
+                    !primaryKey.includes(column) &&
+                    column !== createdAt
+                );
+            if (updatedAt && update.length > 0 && !update.includes(updatedAt)) {
+              update.push(updatedAt);
+            }
+            // Without columns to update, a no-op assignment still returns the row.
+            const assignments = (update.length > 0 ? update : [target[0]])
+              .map(
+                (column) =>
+                  `${quoteIdentifier(column)} = EXCLUDED.${quoteIdentifier(
+                    column
+                  )}`
+              )
+              .join(', ');
+            // A conflicting row outside the scope is neither updated nor returned.
+            const scoped = Object.keys(this.scopeValues).map(
+              (column) =>
+                `"${this.table}".${quoteIdentifier(
+                  column
+                )} = EXCLUDED.${quoteIdentifier(column)}`
+            );
+            return ` ON CONFLICT (${target
+              .map(quoteIdentifier)
+              .join(', ')}) DO UPDATE SET ${assignments}${
+              scoped.length > 0 ? ` WHERE ${scoped.join(' AND ')}` : ''
+            }`;
+          };
+          // xmax is 0 only for rows this statement inserted.
+          const written = await tx.insertBatches(
+            prepared,
+            onConflict,
+            options.batchSize,
+            ', (xmax = 0) AS "__inserted"'
+          );
+          // Only a conflicting row outside the scope comes back short.
+          if (written.length < prepared.length) {
+            throw new ScopeViolationError(
+              `${
+                prepared.length - written.length
+              } row(s) conflict with rows outside the scope`,
+              { model: String(this.table), operation, fields: target }
+            );
+          }
+          await tx.invalidateCache(
+            written.map((row) => this.primaryKeyValue(row))
+          );
+          const result = [];
+          for (const { __inserted, ...row } of written) {
+            if (__inserted) {
+              await tx.runAfterHook('afterCreate', row);
+            } else {
+              await tx.runAfterHook('afterUpdate', row, {
+                id: this.primaryKeyValue(row),
+              });
+            }
+            result.push(this.hideFields(row as ModelData<T>));
+          }
+          return result;
+        });
       } catch (error) {
-        console.error(`[${this.table}] Error in create method:`, error);
-        throw new Error(`Error in create method: ${(error as Error).message}`);
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation,
+        });
       }
     });
   }
 
+  private async prepareInserts(
+    rows: CreateData<T>[]
+  ): Promise<Record<string, any>[]> {
+    const prepared = [];
+    for (let data of rows) {
+      data = this.withScopeValues(
+        await this.runBeforeHook(
+          'beforeCreate',
+          this.withScopeValues(data, 'create')
+        ),
+        'create'
+      );
+      await this.validator.validate(String(this.table), data, 'create');
+      prepared.push(this.processFields(this.withTimestamps(data, 'create')));
+    }
+    return prepared;
+  }
+
+  /**
+   * Writes the rows in batches of multi-row INSERTs and returns what the
+   * statements returned. A column missing from a row is inserted as DEFAULT.
+   */
+  private async insertBatches(
+    rows: Record<string, any>[],
+    onConflict: (columns: string[]) => string,
+    batchSize: number = DEFAULT_BATCH_SIZE,
+    returning: string = ''
+  ): Promise<Record<string, any>[]> {
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    if (columns.length === 0) {
+      throw new Error(`Cannot insert "${this.table}" rows without fields`);
+    }
+    const size = Math.max(
+      1,
+      Math.min(batchSize, Math.floor(MAX_PARAMETERS / columns.length))
+    );
+    const columnList = columns.map(quoteIdentifier).join(', ');
+    const written: Record<string, any>[] = [];
+
+    for (let start = 0; start < rows.length; start += size) {
+      const params: any[] = [];
+      const values = rows
+        .slice(start, start + size)
+        .map(
+          (row) =>
+            `(${columns
+              .map((column) => {
+                if (!(column in row)) {
+                  return 'DEFAULT';
+                }
+                params.push(row[column]);
+                return `$${params.length}`;
+              })
+              .join(', ')})`
+        )
+        .join(', ');
+      const { rows: batch } = await this.execute(
+        `INSERT INTO "${
+          this.table
+        }" (${columnList}) VALUES ${values}${onConflict(
+          columns
+        )} RETURNING *${returning}`,
+        params
+      );
+      written.push(...batch);
+    }
+    return written;
+  }
+
+  // The conflict target must be the primary key or a unique index.
+  private conflictColumns(
+    target?: keyof ModelData<T> | (keyof ModelData<T>)[]
+  ) {
+    const { primaryKey, indexes = [] } = this.schema[this.table];
+    const primaryKeyColumns = Array.isArray(primaryKey)
+      ? primaryKey
+      : [primaryKey];
+    if (target === undefined) {
+      return primaryKeyColumns;
+    }
+    const columns = (Array.isArray(target) ? target : [target]).map(String);
+    const candidates = [
+      primaryKeyColumns,
+      ...indexes.filter((index) => index.unique).map((index) => index.fields),
+    ];
+    const isUnique = candidates.some(
+      (candidate) =>
+        candidate.length === columns.length &&
+        candidate.every((column) => columns.includes(column))
+    );
+    if (!isUnique) {
+      throw new Error(
+        `Conflict target (${columns.join(
+          ', '
+        )}) is neither the primary key nor a unique index of "${this.table}"`
+      );
+    }
+    return columns;
+  }
+
   private async createRelatedRecords(
     relation: Relation,
     parentId: any,
     data: any[] | any
   ) {
-    const relatedQueryBuilder = new QueryBuilder(
-      relation.model,
-      this.pool as Pool,
-      this.schema
-    );
+    const relatedQueryBuilder = this.relatedBuilder(relation.model);
     if (Array.isArray(data)) {
       for (const item of data) {
         await relatedQueryBuilder.create({
@@ -275,11 +748,16 @@ export default class QueryBuilder<T extends keyof Schema> {
 
   private async updateForeignKey(
     relation: Relation,
-    childId: any,
+    childId: PrimaryKeyValue,
     parentId: any
   ) {
-    const query = `UPDATE "${this.table}" SET "${relation.foreignKey}" = $1 WHERE id = $2`;
-    await this.query(query, [parentId, childId]);
+    const key = this.keyValues(childId);
+    const params: any[] = [parentId];
+    const query = `UPDATE "${this.table}" SET "${
+      relation.foreignKey
+    }" = $1${this.touchUpdatedAt()} WHERE ${this.keyCondition(key, params)}`;
+    await this.query(query, params);
+    await this.invalidateCache([this.primaryKeyValue(key)]);
   }
 
   private async createManyToManyRelation(
@@ -297,221 +775,504 @@ export default class QueryBuilder<T extends keyof Schema> {
       const query = `INSERT INTO "${relation.junctionTable}" ("${relation.foreignKey}", "${relation.relatedKey}") VALUES ($1, $2)`;
       await this.query(query, [sourceId, targetId]);
     }
+    await this.invalidateCache(undefined, relation.junctionTable);
   }
 
-  async findAll(
+  async findAll<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never,
+    I extends ModelInclude<T> = []
+  >(
     options: {
-      where?: Partial<ModelData<T>>;
+      where?: WhereClause<ModelData<T>>;
       orderBy?: keyof ModelData<T>;
       limit?: number;
       offset?: number;
-    } = {}
-  ): Promise<ModelData<T>[]> {
+      include?: I;
+    } & SoftDeleteScope &
+      SelectOptions<ModelData<T>, S, O> = {}
+  ): Promise<(Selected<ModelData<T>, S, O> & Included<T, I>)[]> {
     try {
-      const [result, executionTime] = await measureExecutionTime(async () => {
-        const { where = {}, orderBy, limit, offset } = options;
-        let query = `SELECT * FROM "${this.table}"`;
+      return await this.measure('findAll', async () => {
         const params: any[] = [];
+        const { query, extra } = this.listQuery(options, params);
+        // Only bare rows are cached; relations are loaded fresh each time.
+        const rows = await this.cached(
+          (cache) =>
+            cache.queryKey(String(this.table), 'findAll', [query, params]),
+          () => this.query(query, params)
+        );
+        await this.loadIncludes(rows, options.include);
+        return this.stripColumns(rows, extra);
+      });
+    } catch (error) {
+      throw toSquirmyError(error, {
+        model: String(this.table),
+        operation: 'findAll',
+      });
+    }
+  }
 
-        if (Object.keys(where).length > 0) {
-          const whereConditions = Object.entries(where)
-            .map(([key, value], index) => {
-              params.push(value);
-              return `"${key}" = $${index + 1}`;
-            })
-            .join(' AND ');
-          query += ` WHERE ${whereConditions}`;
-        }
-
-        if (orderBy) {
-          query += ` ORDER BY ${String(orderBy)}`;
-        }
+  /**
+   * Reads the rows `findAll` would return through a server-side cursor,
+   * `batchSize` rows at a time (1000 by default). Relations in `include` are
+   * loaded per batch. Stopping early or throwing closes the cursor and
+   * releases its client.
+   */
+  async *iterateBatches<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never,
+    I extends ModelInclude<T> = []
+  >(
+    options: {
+      where?: WhereClause<ModelData<T>>;
+      orderBy?: keyof ModelData<T>;
+      limit?: number;
+      offset?: number;
+      include?: I;
+    } & SoftDeleteScope &
+      SelectOptions<ModelData<T>, S, O> &
+      StreamOptions = {}
+  ): AsyncGenerator<(Selected<ModelData<T>, S, O> & Included<T, I>)[]> {
+    const params: any[] = [];
+    const { query, extra } = this.listQuery(options, params);
+    const batches = cursorBatches(
+      this.pool,
+      query,
+      params,
+      options.batchSize ?? DEFAULT_FETCH_SIZE,
+      (client, sql, values) => this.bind(client).query(sql, values),
+      (client) => applyScopeSettings(client, this.options.scope)
+    );
+    try {
+      for await (const rows of batches) {
+        await this.loadIncludes(rows, options.include);
+        yield this.stripColumns(rows, extra);
+      }
+    } catch (error) {
+      throw toSquirmyError(error, {
+        model: String(this.table),
+        operation: 'iterate',
+      });
+    }
+  }
 
-        if (limit) {
-          query += ` LIMIT ${limit}`;
-        }
+  /** Yields the rows of `iterateBatches` one at a time. */
+  async *iterate<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never,
+    I extends ModelInclude<T> = []
+  >(
+    options: {
+      where?: WhereClause<ModelData<T>>;
+      orderBy?: keyof ModelData<T>;
+      limit?: number;
+      offset?: number;
+      include?: I;
+    } & SoftDeleteScope &
+      SelectOptions<ModelData<T>, S, O> &
+      StreamOptions = {}
+  ): AsyncGenerator<Selected<ModelData<T>, S, O> & Included<T, I>> {
+    for await (const rows of this.iterateBatches<S, O, I>(options)) {
+      for (const row of rows) {
+        yield row;
+      }
+    }
+  }
 
-        if (offset) {
-          query += ` OFFSET ${offset}`;
-        }
+  /**
+   * `iterate` as an object-mode Readable. Batches are only fetched as the
+   * consumer reads, and destroying the stream closes the cursor.
+   */
+  stream<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never,
+    I extends ModelInclude<T> = []
+  >(
+    options: {
+      where?: WhereClause<ModelData<T>>;
+      orderBy?: keyof ModelData<T>;
+      limit?: number;
+      offset?: number;
+      include?: I;
+    } & SoftDeleteScope &
+      SelectOptions<ModelData<T>, S, O> &
+      StreamOptions = {}
+  ): Readable {
+    return Readable.from(this.iterate<S, O, I>(options));
+  }
 
-        return this.query(query, params);
-      });
-      console.log(`[${this.table}] FindAll operation took ${executionTime}ms`);
-      return result;
-    } catch (error) {
-      console.error(`[${this.table}] Error in findAll method:`, error);
-      throw new Error(`Error in findAll method`);
+  // The SELECT behind findAll and the cursor reads.
+  private listQuery(
+    options: FindAllOptions<ModelData<T>> &
+      SelectOptions<ModelData<T>, any, any>,
+    params: any[]
+  ): { query: string; extra: string[] } {
+    const { where, orderBy, limit, offset, include } = options;
+    const { columns, extra } = this.projection(
+      options,
+      this.includeKeys(include)
+    );
+    let query = `${this.selectClause(options, columns)} FROM "${
+      this.table
+    }"${this.buildReadWhere(where, params, options)}`;
+
+    // DISTINCT ON requires the ORDER BY to start with its fields.
+    const order = [
+      ...(options.distinctOn ?? []).map((field) =>
+        sql.identifier(String(field))
+      ),
+      ...(orderBy ? [sql.identifier(this.fieldName(orderBy, 'orderBy'))] : []),
+    ];
+    if (order.length > 0) {
+      query += sql` ORDER BY ${sql.join(order)}`.compile(params);
     }
-  }
 
-  async findById(id: number): Promise<ModelData<T> | null> {
-    const cacheKey = this.getCacheKey('findById', id);
-    const cachedResult = this.cache.get<ModelData<T> | null>(cacheKey);
+    if (limit) {
+      query += sql` LIMIT ${limit}`.compile(params);
+    }
 
-    if (cachedResult) {
-      return cachedResult;
+    if (offset) {
+      query += sql` OFFSET ${offset}`.compile(params);
     }
+    return { query, extra };
+  }
 
+  async findById<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never,
+    I extends ModelInclude<T> = []
+  >(
+    id: PrimaryKeyValue,
+    options: { include?: I } & SoftDeleteScope &
+      SelectOptions<ModelData<T>, S, O> = {}
+  ): Promise<(Selected<ModelData<T>, S, O> & Included<T, I>) | null> {
     try {
-      const [result, executionTime] = await measureExecutionTime(async () => {
-        const [row] = await this.query(
-          `SELECT * FROM "${this.table}" WHERE id = $1`,
-          [id]
+      return await this.measure('findById', async () => {
+        const key = this.keyValues(id);
+        const params: any[] = [];
+        const { columns, extra } = this.projection(
+          options,
+          this.includeKeys(options.include)
         );
-        return row || null;
+        const query = `${this.selectClause(options, columns)} FROM "${
+          this.table
+        }" WHERE ${[
+          this.keyCondition(key, params),
+          ...this.scopeConditions(options, params),
+        ].join(' AND ')}`;
+        // The primary key entry only ever holds the default projection and scope.
+        const isDefault =
+          !options.select &&
+          !options.omit &&
+          !options.withDeleted &&
+          !options.onlyDeleted &&
+          extra.length === 0;
+        const row = await this.cached(
+          (cache) =>
+            isDefault
+              ? cache.primaryKeyKey(
+                  String(this.table),
+                  this.primaryKeyValue(key)
+                )
+              : cache.queryKey(String(this.table), 'findById', [query, params]),
+          async () => {
+            const [row] = await this.query(query, params);
+            return row || null;
+          }
+        );
+        if (!row) {
+          return null;
+        }
+        await this.loadIncludes([row], options.include);
+        const [withRelations] = this.stripColumns([row], extra);
+        return withRelations;
       });
-      if (result) {
-        this.cache.set(cacheKey, result);
-      }
-      console.log(`[${this.table}] FindById operation took ${executionTime}ms`);
-
-      return result;
     } catch (error) {
-      console.error(`[${this.table}] Error in findById method:`, error);
-      throw new Error(`Error in findById method`);
+      throw toSquirmyError(error, {
+        model: String(this.table),
+        operation: 'findById',
+      });
     }
   }
 
-  async findOne(where: Partial<ModelData<T>>): Promise<ModelData<T> | null> {
+  async findOne<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never,
+    I extends ModelInclude<T> = []
+  >(
+    where: WhereClause<ModelData<T>>,
+    options: { include?: I } & SoftDeleteScope &
+      SelectOptions<ModelData<T>, S, O> = {}
+  ): Promise<(Selected<ModelData<T>, S, O> & Included<T, I>) | null> {
     try {
-      const [result, executionTime] = await measureExecutionTime(async () => {
-        const whereConditions = Object.entries(where)
-          .map(([key], index) => `"${key}" = $${index + 1}`)
-          .join(' AND ');
-        const query = `SELECT * FROM "${this.table}" WHERE ${whereConditions} LIMIT 1`;
-        const [row] = await this.query(query, Object.values(where));
+      return await this.measure('findOne', async () => {
+        const params: any[] = [];
+        const { columns, extra } = this.projection(
+          options,
+          this.includeKeys(options.include)
+        );
+        const query = `${this.selectClause(options, columns)} FROM "${
+          this.table
+        }"${this.buildReadWhere(where, params, options)}${
+          options.distinctOn
+            ? ` ORDER BY ${options.distinctOn
+                .map((field) => quoteIdentifier(String(field)))
+                .join(', ')}`
+            : ''
+        } LIMIT 1`;
+        const rows = await this.cached(
+          (cache) =>
+            cache.queryKey(String(this.table), 'findOne', [query, params]),
+          () => this.query(query, params)
+        );
+        await this.loadIncludes(rows, options.include);
+        const [row] = this.stripColumns(rows, extra);
         return row || null;
       });
-      console.log(`[${this.table}] FindOne operation took ${executionTime}ms`);
-      return result;
     } catch (error) {
-      console.error(`[${this.table}] Error in findOne method:`, error);
-      throw new Error(`Error in findOne method`);
+      throw toSquirmyError(error, {
+        model: String(this.table),
+        operation: 'findOne',
+      });
     }
   }
 
-  async update(id: number, data: Partial<ModelData<T>>): Promise<ModelData<T>> {
+  /**
+   * Full-text search over the model's `search` fields. The query is parsed
+   * with websearch_to_tsquery, so quoted phrases, `or` and `-word` work.
+   * Matches come best first with their ts_rank as `_rank`, and with
+   * `highlight` each field's matches marked up by ts_headline.
+   */
+  async search<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never
+  >(
+    query: string,
+    options: SearchOptions<ModelData<T>> &
+      SelectOptions<ModelData<T>, S, O> = {}
+  ): Promise<(Selected<ModelData<T>, S, O> & SearchMatch)[]> {
     try {
-      const [result, executionTime] = await measureExecutionTime(async () => {
-        this.validatePartialData(data);
-        const processedData = this.processFields(data);
-        const keys = Object.keys(processedData);
-        const values = Object.values(processedData);
-        const setString = keys
-          .map((key, index) => `"${key}" = $${index + 1}`)
-          .join(', ');
-        const query = `
-        UPDATE "${this.table}" 
-        SET ${setString} 
-        WHERE id = $${keys.length + 1} 
-        RETURNING *
-      `;
-        const [row] = await this.query(query, [...values, id]);
+      return await this.measure('search', async () => {
+        const search = searchConfig(this.schema[this.table]);
+        if (!search) {
+          throw new Error(`"${this.table}" has no search fields`);
+        }
+        const params: any[] = [search.language, query];
+        const vector = quoteIdentifier(search.column);
+        const { columns } = this.projection(options);
+        const selected = [
+          this.columnList(columns),
+          `ts_rank(${vector}, "__query") AS "_rank"`,
+        ];
+
+        const highlighted = this.highlightFields(options.highlight, search);
+        if (highlighted.length > 0) {
+          params.push(
+            headlineOptions(
+              typeof options.highlight === 'object' ? options.highlight : {}
+            )
+          );
+          const headlineOptionsParam = `$${params.length}`;
+          for (const field of highlighted) {
+            selected.push(
+              `ts_headline($1::regconfig, coalesce(${quoteIdentifier(
+                field
+              )}::text, ''), "__query", ${headlineOptionsParam}) AS ${quoteIdentifier(
+                `__highlight_${field}`
+              )}`
+            );
+          }
+        }
 
-        if (!row) {
-          throw new Error(`Record with id ${id} not found`);
+        const conditions = this.readConditions(options.where, params, options);
+        let statement = `SELECT ${selected.join(', ')} FROM "${
+          this.table
+        }", websearch_to_tsquery($1::regconfig, $2) AS "__query" WHERE ${vector} @@ "__query"${
+          conditions ? ` AND (${conditions})` : ''
+        } ORDER BY "_rank" DESC`;
+        if (options.limit) {
+          params.push(options.limit);
+          statement += ` LIMIT $${params.length}`;
+        }
+        if (options.offset) {
+          params.push(options.offset);
+          statement += ` OFFSET $${params.length}`;
         }
 
-        if (data.relations) {
-          for (const [relationName, relationData] of Object.entries(
-            data.relations
-          )) {
-            const relation = this.relations[relationName];
-            if (!relation) {
-              throw new Error(
-                `Relation "${relationName}" not found in schema for "${this.table}"`
-              );
+        const rows = await this.query(statement, params);
+        return rows.map((row) => {
+          if (highlighted.length > 0) {
+            row._highlights = {};
+            for (const field of highlighted) {
+              row._highlights[field] = row[`__highlight_${field}`];
+              delete row[`__highlight_${field}`];
             }
-            await this.updateRelation(relation, row.id, relationData);
           }
-        }
-
-        return row;
+          return row;
+        });
       });
-
-      console.log(`[${this.table}] Update operation took ${executionTime}ms`);
-      return result;
     } catch (error) {
-      console.error(`[${this.table}] Error in update method:`, error);
-      throw new Error(`Error in update method: ${(error as Error).message}`);
+      throw toSquirmyError(error, {
+        model: String(this.table),
+        operation: 'search',
+      });
+    }
+  }
+
+  private highlightFields(
+    highlight: SearchOptions<ModelData<T>>['highlight'],
+    search: { fields: Record<string, SearchWeight> }
+  ): string[] {
+    if (!highlight) {
+      return [];
     }
+    const fields =
+      (typeof highlight === 'object' && highlight.fields) ||
+      Object.keys(search.fields);
+    return fields.map((field) => this.fieldName(field, 'highlight'));
+  }
+
+  async update(
+    id: PrimaryKeyValue,
+    data: UpdateData<T> & { relations?: Record<string, any> }
+  ): Promise<ModelData<T>> {
+    return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
+      try {
+        return await this.measure('update', async () => {
+          data = this.withScopeValues(
+            await tx.runBeforeHook(
+              'beforeUpdate',
+              this.withScopeValues(data, 'update'),
+              { id }
+            ),
+            'update'
+          );
+          await this.validator.validate(String(this.table), data, 'update');
+          const key = this.keyValues(id);
+          const processedData = this.processFields(
+            this.withTimestamps(data, 'update')
+          );
+          const params: any[] = [];
+          const setString = this.setClause(processedData, params);
+          const query = `
+          UPDATE "${this.table}" 
+          SET ${setString} 
+          WHERE ${this.writeConditions(this.keyCondition(key, params), params)} 
+          RETURNING *
+        `;
+          const [row] = await tx.query(query, params);
+
+          if (!row) {
+            throw new NotFoundError(
+              `Record with key ${JSON.stringify(id)} not found`,
+              {
+                model: String(this.table),
+                operation: 'update',
+                fields: Object.keys(key),
+              }
+            );
+          }
+          await tx.invalidateCache([this.primaryKeyValue(key)]);
+
+          if (data.relations) {
+            for (const [relationName, relationData] of Object.entries(
+              data.relations
+            )) {
+              const relation = this.relations[relationName];
+              if (!relation) {
+                throw new Error(
+                  `Relation "${relationName}" not found in schema for "${this.table}"`
+                );
+              }
+              await tx.updateRelation(relation, row, relationData);
+            }
+          }
+
+          await tx.runAfterHook('afterUpdate', row, { id });
+          return this.hideFields(row);
+        });
+      } catch (error) {
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation: 'update',
+        });
+      }
+    });
   }
 
   async updateMany(
-    where: Partial<ModelData<T>>,
-    data: Partial<ModelData<T>>
+    where: WhereClause<ModelData<T>>,
+    data: UpdateData<T>
   ): Promise<number> {
     return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
       try {
-        const [result, executionTime] = await measureExecutionTime(async () => {
-          this.validatePartialData(data);
-          const processedData = this.processFields(data);
-          const setKeys = Object.keys(processedData);
-          const setValues = Object.values(processedData);
-          const whereKeys = Object.keys(where);
-          const whereValues = Object.values(where);
-          const setString = setKeys
-            .map((key, index) => `"${key}" = $${index + 1}`)
-            .join(', ');
-          const whereString = whereKeys
-            .map((key, index) => `"${key}" = $${setKeys.length + index + 1}`)
-            .join(' AND ');
+        return await this.measure('updateMany', async () => {
+          ({ where, data } = await tx.runBeforeHook('beforeUpdateMany', {
+            where,
+            data: this.withScopeValues(data, 'update'),
+          }));
+          data = this.withScopeValues(data, 'update');
+          await this.validator.validate(String(this.table), data, 'update');
+          const processedData = this.processFields(
+            this.withTimestamps(data, 'update')
+          );
+          const params: any[] = [];
+          const setString = this.setClause(processedData, params);
+          const conditions = this.whereConditions(where, params);
+          if (!conditions) {
+            throw new Error('updateMany requires at least one where condition');
+          }
           const query = `
           UPDATE "${this.table}"
-          SET ${setString}
-          WHERE ${whereString}
-          RETURNING id
+          SET ${setString} WHERE ${this.writeConditions(conditions, params)}
+          RETURNING *
         `;
-          const { rows } = await client.query(query, [
-            ...setValues,
-            ...whereValues,
-          ]);
-          const updatedIds = rows.map((row) => row.id);
+          const { rows } = await tx.execute(query, params);
+          await tx.invalidateCache(
+            rows.map((row) => this.primaryKeyValue(row))
+          );
 
           // Update relations if necessary
-          if (this.relations && updatedIds.length > 0) {
-            for (const id of updatedIds) {
+          if (this.relations && rows.length > 0) {
+            for (const row of rows) {
               for (const [relationName, relation] of Object.entries(
                 this.relations
               )) {
-                await this.updateRelation(
-                  relation,
-                  id,
-                  data[relationName],
-                  client
-                );
+                const relationData = (data as Record<string, any>)[
+                  relationName
+                ];
+                if (relationData === undefined) continue;
+                await tx.updateRelation(relation, row, relationData);
               }
             }
           }
 
-          return updatedIds.length;
+          await tx.runAfterHook('afterUpdateMany', {
+            where,
+            data,
+            count: rows.length,
+          });
+          return rows.length;
         });
-
-        console.log(
-          `[${this.table}] UpdateMany operation took ${executionTime}ms`
-        );
-        return result;
       } catch (error) {
-        console.error(`[${this.table}] Error in updateMany method:`, error);
-        throw new Error(
-          `Error in updateMany method: ${(error as Error).message}`
-        );
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation: 'updateMany',
+        });
       }
     });
   }
 
   private async updateRelation(
     relation: Relation,
-    parentId: any,
-    data: any,
-    client?: PoolClient
+    row: Record<string, any>,
+    data: any
   ) {
-    const relatedQueryBuilder = new QueryBuilder(
-      relation.model,
-      (client || this.pool) as Pool,
-      this.schema
-    );
+    const relatedQueryBuilder = this.relatedBuilder(relation.model);
+    const parentId = row[this.relationParentKey(relation)];
 
     switch (relation.type) {
       case 'hasMany':
@@ -531,7 +1292,7 @@ export default class QueryBuilder<T extends keyof Schema> {
         }
         break;
       case 'belongsTo':
-        await this.updateForeignKey(relation, parentId, data);
+        await this.updateForeignKey(relation, row, data);
         break;
       case 'manyToMany':
         await this.updateManyToManyRelation(relation, parentId, data);
@@ -573,57 +1334,178 @@ export default class QueryBuilder<T extends keyof Schema> {
         [sourceId, id]
       );
     }
+    await this.invalidateCache(undefined, relation.junctionTable);
   }
 
-  async softDelete(id: number): Promise<ModelData<T> | null> {
-    const query = `
-      UPDATE "${this.table}"
-      SET "deletedAt" = NOW()
-      WHERE id = $1 AND "deletedAt" IS NULL
-      RETURNING *
-    `;
-    const [row] = await this.query(query, [id]);
-    return row || null;
+  /**
+   * Marks a row deleted without running the delete hooks. On a model with
+   * `softDelete` this is what `delete` does as well.
+   */
+  async softDelete(id: PrimaryKeyValue): Promise<ModelData<T> | null> {
+    this.assertDeletedAt('softDelete');
+    return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
+      try {
+        return await this.measure('softDelete', async () => {
+          const key = this.keyValues(id);
+          const params: any[] = [];
+          const [row] = await tx.markDeleted(
+            this.writeConditions(this.keyCondition(key, params), params),
+            params
+          );
+          await tx.invalidateCache([this.primaryKeyValue(key)]);
+          return this.hideFields(row || null);
+        });
+      } catch (error) {
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation: 'softDelete',
+        });
+      }
+    });
   }
 
-  async restore(id: number): Promise<ModelData<T> | null> {
-    const query = `
-      UPDATE "${this.table}"
-      SET "deletedAt" = NULL
-      WHERE id = $1 AND "deletedAt" IS NOT NULL
-      RETURNING *
-    `;
-    const [row] = await this.query(query, [id]);
-    return row || null;
+  /** Clears `deletedAt` on a row. Rows deleted along with it stay deleted. */
+  async restore(id: PrimaryKeyValue): Promise<ModelData<T> | null> {
+    this.assertDeletedAt('restore');
+    return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
+      try {
+        return await this.measure('restore', async () => {
+          const key = this.keyValues(id);
+          const params: any[] = [];
+          const [row] = await tx.query(
+            `UPDATE "${
+              this.table
+            }" SET "${DELETED_AT}" = NULL${this.touchUpdatedAt()} WHERE ${this.writeConditions(
+              this.keyCondition(key, params),
+              params
+            )} AND "${DELETED_AT}" IS NOT NULL RETURNING *`,
+            params
+          );
+          await tx.invalidateCache([this.primaryKeyValue(key)]);
+          return this.hideFields(row || null);
+        });
+      } catch (error) {
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation: 'restore',
+        });
+      }
+    });
+  }
+
+  private assertDeletedAt(operation: string): void {
+    if (!(DELETED_AT in this.fields)) {
+      throw new Error(
+        `${operation} needs a "${DELETED_AT}" field; set "softDelete" on "${this.table}"`
+      );
+    }
+  }
+
+  /**
+   * Sets `deletedAt` on the matching rows that are not deleted yet and, when
+   * the model cascades soft deletes, on the rows of its hasMany and hasOne
+   * relations. NOW() is fixed for the transaction, so the whole cascade
+   * shares one timestamp.
+   */
+  private async markDeleted(conditions: string, params: any[]): Promise<any[]> {
+    const rows = await this.query(
+      `UPDATE "${
+        this.table
+      }" SET "${DELETED_AT}" = NOW()${this.touchUpdatedAt()} WHERE (${conditions}) AND "${DELETED_AT}" IS NULL RETURNING *`,
+      params
+    );
+    if (!this.cascadesSoftDeletes || rows.length === 0) {
+      return rows;
+    }
+    for (const relation of Object.values(this.relations)) {
+      if (relation.type !== 'hasMany' && relation.type !== 'hasOne') continue;
+      const related = this.relatedBuilder(relation.model);
+      if (!related.softDeletes) continue;
+      const parentKey = this.relationParentKey(relation);
+      const keys = [
+        ...new Set(
+          rows
+            .map((row) => row[parentKey])
+            .filter((key) => key !== null && key !== undefined)
+        ),
+      ];
+      if (keys.length === 0) continue;
+      const childParams: any[] = [keys];
+      const children = await related.markDeleted(
+        related.writeConditions(
+          `"${relation.foreignKey}" = ANY($1)`,
+          childParams
+        ),
+        childParams
+      );
+      await related.invalidateCache(
+        children.map((row) => related.primaryKeyValue(row))
+      );
+    }
+    return rows;
   }
 
   async createIndex(
     fieldName: keyof ModelData<T>,
     indexType: 'BTREE' | 'HASH' = 'BTREE'
   ): Promise<void> {
-    const indexName = `idx_${this.table}_${String(fieldName)}`;
-    const query = `CREATE INDEX IF NOT EXISTS ${indexName} ON "${
-      this.table
-    }" USING ${indexType} ("${String(fieldName)}")`;
-    await this.query(query);
+    if (indexType !== 'BTREE' && indexType !== 'HASH') {
+      throw new Error(`Invalid index type "${indexType}"`);
+    }
+    const query = sql`CREATE INDEX IF NOT EXISTS ${this.indexName(
+      fieldName
+    )} ON ${sql.identifier(String(this.table))} USING ${sql.raw(
+      indexType
+    )} (${sql.identifier(this.fieldName(fieldName, 'createIndex'))})`;
+    await this.measure('createIndex', () => this.query(query));
   }
 
   async dropIndex(fieldName: keyof ModelData<T>): Promise<void> {
-    const indexName = `idx_${this.table}_${String(fieldName)}`;
-    const query = `DROP INDEX IF EXISTS ${indexName}`;
-    await this.query(query);
+    const query = sql`DROP INDEX IF EXISTS ${this.indexName(fieldName)}`;
+    await this.measure('dropIndex', () => this.query(query));
+  }
+
+  // Lower-cased, as Postgres folded the name when it was left unquoted.
+  private indexName(fieldName: keyof ModelData<T>): SqlFragment {
+    return sql.identifier(
+      `idx_${String(this.table)}_${String(fieldName)}`.toLowerCase()
+    );
   }
 
-  async paginate(
+  // Checks a field a caller names before it is used as a column.
+  private fieldName(field: PropertyKey, context: string): string {
+    const name = String(field);
+    if (!(name in this.fields)) {
+      throw new Error(
+        `Unknown field "${name}" in ${context} for "${this.table}"`
+      );
+    }
+    return name;
+  }
+
+  async paginate<
+    S extends keyof ModelData<T> = keyof ModelData<T>,
+    O extends keyof ModelData<T> = never,
+    I extends ModelInclude<T> = []
+  >(
     page: number,
     pageSize: number,
-    where: Partial<ModelData<T>> = {}
-  ): Promise<PaginationResult<ModelData<T>>> {
+    where: WhereClause<ModelData<T>> = {},
+    options: { include?: I } & SoftDeleteScope &
+      SelectOptions<ModelData<T>, S, O> = {}
+  ): Promise<PaginationResult<Selected<ModelData<T>, S, O> & Included<T, I>>> {
     const offset = (page - 1) * pageSize;
-    const [data, totalCount] = await Promise.all([
-      this.findAll({ where, limit: pageSize, offset }),
-      this.count(where),
-    ]);
+    const distinct = options.distinct || options.distinctOn;
+    const [data, totalCount] = await this.measure('paginate', () =>
+      Promise.all([
+        this.findAll({ ...options, where, limit: pageSize, offset }),
+        distinct
+          ? this.countDistinctRows(where, options)
+          : this.count(where, options),
+      ])
+    );
 
     return {
       data,
@@ -634,146 +1516,807 @@ export default class QueryBuilder<T extends keyof Schema> {
     };
   }
 
-  private async count(where: Partial<ModelData<T>> = {}): Promise<number> {
-    const whereConditions = Object.entries(where)
-      .map(([key], index) => `"${key}" = $${index + 1}`)
-      .join(' AND ');
-    const query = `SELECT COUNT(*) FROM "${this.table}"${
-      whereConditions ? ` WHERE ${whereConditions}` : ''
-    }`;
-    const [result] = await this.query(query, Object.values(where));
-    return parseInt(result.count, 10);
+  // With DISTINCT, the total is the number of rows the read returns.
+  private async countDistinctRows(
+    where: WhereClause<ModelData<T>>,
+    options: SelectOptions<ModelData<T>, any, any> & SoftDeleteScope
+  ): Promise<number> {
+    const params: any[] = [];
+    const { columns } = this.projection(options);
+    const query = `SELECT COUNT(*) FROM (${this.selectClause(
+      options,
+      columns
+    )} FROM "${this.table}"${this.buildReadWhere(
+      where,
+      params,
+      options
+    )}) AS selected`;
+    const [row] = await this.query(query, params);
+    return Number(row.count);
   }
 
-  async findAllWithRelations(
-    options: FindAllOptions = {},
-    relations: string[] = []
-  ): Promise<ModelData<T>[]> {
-    const results = await this.findAll(options);
-    return this.loadRelations(results, relations);
+  /**
+   * Keyset pagination: pages are read relative to the row a cursor points at
+   * instead of by OFFSET, so they stay stable while rows are inserted.
+   */
+  async cursorPaginate<I extends ModelInclude<T> = []>(
+    options: CursorPaginationOptions<ModelData<T>> & { include?: I }
+  ): Promise<CursorPaginationResult<ModelData<T> & Included<T, I>>> {
+    const { take, after, before, where, include, withTotal } = options;
+    if (after && before) {
+      throw new Error('cursorPaginate accepts either "after" or "before"');
+    }
+
+    const order = this.cursorOrder(options.orderBy);
+    const backward = Boolean(before);
+    const cursor = after ?? before;
+    const params: any[] = [];
+    const conditions: string[] = [];
+
+    const whereConditions = this.whereConditions(where, params);
+    if (whereConditions) {
+      conditions.push(`(${whereConditions})`);
+    }
+    conditions.push(...this.scopeConditions(options, params));
+    if (cursor) {
+      const values = decodeCursor(cursor);
+      if (values.length !== order.length) {
+        throw new Error('Cursor does not match the requested orderBy');
+      }
+      conditions.push(this.keysetCondition(order, values, backward, params));
+    }
+
+    // Paging backwards reads in reverse order, then flips the page back.
+    // NULLs sort after every value of the requested direction.
+    const orderSql = order
+      .map(
+        ([field, direction]) =>
+          `${quoteIdentifier(field)} ${
+            (direction === 'asc') !== backward
+              ? 'ASC NULLS LAST'
+              : 'DESC NULLS FIRST'
+          }`
+      )
+      .join(', ');
+    params.push(take + 1);
+    const { columns, extra } = this.projection({}, this.includeKeys(include));
+    // Cursor values are read as text so that they bind back exactly, with
+    // the microseconds a Date would lose.
+    const cursorColumns = order.map((_, index) => `__cursor${index}`);
+    const cursorSelect = order
+      .map(
+        ([field], index) =>
+          `${quoteIdentifier(field)}::text AS "${cursorColumns[index]}"`
+      )
+      .join(', ');
+    const query = `SELECT ${this.columnList(columns)}, ${cursorSelect} FROM "${
+      this.table
+    }"${
+      conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+    } ORDER BY ${orderSql} LIMIT $${params.length}`;
+
+    const [rows, total] = await this.measure('cursorPaginate', () =>
+      Promise.all([
+        this.query(query, params),
+        withTotal ? this.count(where, options) : undefined,
+      ])
+    );
+    const hasMore = rows.length > take;
+    const data = rows.slice(0, take);
+    if (backward) {
+      data.reverse();
+    }
+    await this.loadIncludes(data, include);
+
+    const hasNextPage = backward || hasMore;
+    const hasPrevPage = backward ? hasMore : Boolean(after);
+    const cursorOf = (row: Record<string, any>) =>
+      encodeCursor(cursorColumns.map((column) => row[column]));
+
+    const nextCursor =
+      hasNextPage && data.length > 0 ? cursorOf(data[data.length - 1]) : null;
+    const prevCursor =
+      hasPrevPage && data.length > 0 ? cursorOf(data[0]) : null;
+    this.stripColumns(data, [...extra, ...cursorColumns]);
+
+    return {
+      data,
+      nextCursor,
+      prevCursor,
+      hasNextPage,
+      hasPrevPage,
+      ...(withTotal ? { total } : {}),
+    };
   }
 
-  private async loadRelations(
-    results: ModelData<T>[],
-    relations: string[]
-  ): Promise<ModelData<T>[]> {
-    for (const relation of relations) {
-      const relationConfig = this.relations[relation];
-      if (!relationConfig) {
+  private cursorOrder(
+    orderBy: CursorPaginationOptions<ModelData<T>>['orderBy']
+  ): [string, SortDirection][] {
+    const order: [string, SortDirection][] =
+      orderBy === undefined
+        ? []
+        : typeof orderBy === 'object'
+        ? (Object.entries(orderBy) as [string, SortDirection][])
+        : [[String(orderBy), 'asc']];
+
+    for (const [field, direction] of order) {
+      if (!(field in this.fields)) {
         throw new Error(
-          `Relation "${relation}" not found in schema for "${this.table}"`
+          `Unknown field "${field}" in orderBy for "${this.table}"`
         );
       }
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw new Error(`Invalid sort direction "${direction}" for "${field}"`);
+      }
+    }
 
-      const relatedIds = results.map(
-        (result) => result[relationConfig.foreignKey as keyof ModelData<T>]
-      );
-      const relatedQueryBuilder = new QueryBuilder(
-        relationConfig.model,
-        this.pool as Pool,
-        this.schema
-      );
-      const relatedResults = await relatedQueryBuilder.findAll({
-        where: { id: relatedIds },
-      });
+    for (const column of this.primaryKeyColumns()) {
+      if (!order.some(([field]) => field === column)) {
+        order.push([column, 'asc']);
+      }
+    }
+    return order;
+  }
 
-      results = results.map((result) => {
-        let relatedData;
-        if (
-          relationConfig.type === 'hasOne' ||
-          relationConfig.type === 'belongsTo'
-        ) {
-          relatedData = relatedResults.find(
-            (related) =>
-              related.id ===
-              result[relationConfig.foreignKey as keyof ModelData<T>]
-          );
-        } else if (relationConfig.type === 'hasMany') {
-          relatedData = relatedResults.filter(
-            (related) => related[relationConfig.foreignKey] === result.id
-          );
+  /**
+   * Builds "(a > $1) OR (a = $1 AND b > $2) OR ..." so that columns sorted in
+   * different directions can share one cursor. NULLs come after every value,
+   * as in the ORDER BY, so a NULL cursor value is matched with IS NULL.
+   */
+  private keysetCondition(
+    order: [string, SortDirection][],
+    values: any[],
+    backward: boolean,
+    params: any[]
+  ): string {
+    const primaryKey = this.primaryKeyColumns();
+    const placeholders = values.map((value) => {
+      if (value === null) {
+        return null;
+      }
+      params.push(value);
+      return `$${params.length}`;
+    });
+    const branches: string[] = [];
+    for (const [index, [field, direction]] of order.entries()) {
+      const column = quoteIdentifier(field);
+      const placeholder = placeholders[index];
+      const ascending = (direction === 'asc') !== backward;
+      let following: string;
+      if (placeholder === null) {
+        // Ascending, nothing follows a NULL; descending, every value does.
+        if (ascending) {
+          continue;
         }
-
-        return {
-          ...result,
-          [relation]: relatedData,
-        } as ModelData<T>;
-      });
+        following = `${column} IS NOT NULL`;
+      } else if (!ascending) {
+        following = `${column} < ${placeholder}`;
+      } else if (primaryKey.includes(field)) {
+        following = `${column} > ${placeholder}`;
+      } else {
+        following = `(${column} > ${placeholder} OR ${column} IS NULL)`;
+      }
+      const equalities = order
+        .slice(0, index)
+        .map(([previous], i) =>
+          placeholders[i] === null
+            ? `${quoteIdentifier(previous)} IS NULL`
+            : `${quoteIdentifier(previous)} = ${placeholders[i]}`
+        );
+      branches.push([...equalities, following].join(' AND '));
     }
+    if (branches.length === 0) {
+      return 'FALSE';
+    }
+    return `(${branches.map((branch) => `(${branch})`).join(' OR ')})`;
+  }
+
+  async count(
+    where: WhereClause<ModelData<T>> = {},
+    scope: SoftDeleteScope = {}
+  ): Promise<number> {
+    // Callers pass their whole options; only the soft-delete scope applies.
+    const [row] = await this.aggregateQuery('count', {
+      withDeleted: scope.withDeleted,
+      onlyDeleted: scope.onlyDeleted,
+      where,
+      _count: true,
+    });
+    return row._count as number;
+  }
+
+  async countDistinct(
+    field: keyof ModelData<T>,
+    where: WhereClause<ModelData<T>> = {}
+  ): Promise<number> {
+    return this.aggregateField('_countDistinct', field, where);
+  }
 
-    return results;
+  async sum(
+    field: keyof ModelData<T>,
+    where: WhereClause<ModelData<T>> = {}
+  ): Promise<number | null> {
+    return this.aggregateField('_sum', field, where);
   }
 
-  private getCacheKey(method: string, ...params: any[]): string {
-    return `${this.table}:${method}:${JSON.stringify(params)}`;
+  async avg(
+    field: keyof ModelData<T>,
+    where: WhereClause<ModelData<T>> = {}
+  ): Promise<number | null> {
+    return this.aggregateField('_avg', field, where);
   }
 
-  async delete(id: number): Promise<ModelData<T> | null> {
+  async min<F extends keyof ModelData<T>>(
+    field: F,
+    where: WhereClause<ModelData<T>> = {}
+  ): Promise<ModelData<T>[F] | null> {
+    return this.aggregateField('_min', field, where);
+  }
+
+  async max<F extends keyof ModelData<T>>(
+    field: F,
+    where: WhereClause<ModelData<T>> = {}
+  ): Promise<ModelData<T>[F] | null> {
+    return this.aggregateField('_max', field, where);
+  }
+
+  /**
+   * Computes several aggregates over the filtered rows in one query.
+   */
+  async aggregate(
+    options: AggregateOptions<ModelData<T>>
+  ): Promise<AggregateResult<ModelData<T>>> {
+    const [row] = await this.aggregateQuery('aggregate', options);
+    return row;
+  }
+
+  async groupBy<K extends keyof ModelData<T>>(
+    options: GroupByOptions<ModelData<T>, K>
+  ): Promise<GroupByResult<ModelData<T>, K>[]> {
+    return this.aggregateQuery('groupBy', options);
+  }
+
+  private async aggregateField(
+    fn: AggregateFunction,
+    field: keyof ModelData<T>,
+    where: WhereClause<ModelData<T>>
+  ): Promise<any> {
+    const [row] = await this.aggregateQuery(fn.slice(1), {
+      where,
+      [fn]: [field],
+    });
+    return (row[fn] as Record<string, any>)[String(field)];
+  }
+
+  private async aggregateQuery(
+    operation: string,
+    options: AggregateOptions<ModelData<T>> &
+      Partial<GroupByOptions<ModelData<T>, keyof ModelData<T>>>
+  ): Promise<any[]> {
     try {
-      const [result, executionTime] = await measureExecutionTime(async () => {
-        const [row] = await this.query(
-          `DELETE FROM "${this.table}" WHERE id = $1 RETURNING *`,
-          [id]
+      return await this.measure(operation, async () => {
+        const { where, having, orderBy, limit, offset } = options;
+        const context = { table: String(this.table), fields: this.fields };
+        const by = (options.by ?? []).map(String);
+        for (const field of by) {
+          if (!(field in this.fields)) {
+            throw new Error(
+              `Unknown field "${field}" in groupBy for "${this.table}"`
+            );
+          }
+        }
+        const selected = aggregateSelections(options, context);
+        if (by.length === 0 && selected.length === 0) {
+          throw new Error(`${operation} requires at least one aggregate`);
+        }
+
+        const params: any[] = [];
+        const columns = [
+          ...by.map(quoteIdentifier),
+          ...selected.map(
+            ({ expression, alias }) => `${expression} AS "${alias}"`
+          ),
+        ];
+        let query = `SELECT ${columns.join(', ')} FROM "${
+          this.table
+        }"${this.buildReadWhere(where, params, options)}`;
+        if (by.length > 0) {
+          query += ` GROUP BY ${by.map(quoteIdentifier).join(', ')}`;
+        }
+        const havingConditions = compileHaving(having, params, context);
+        if (havingConditions) {
+          query += ` HAVING ${havingConditions}`;
+        }
+        const order = compileAggregateOrderBy(orderBy, by, context);
+        if (order.length > 0) {
+          query += ` ORDER BY ${order.join(', ')}`;
+        }
+        if (limit !== undefined) {
+          params.push(limit);
+          query += ` LIMIT $${params.length}`;
+        }
+        if (offset !== undefined) {
+          params.push(offset);
+          query += ` OFFSET $${params.length}`;
+        }
+
+        const rows = await this.cached(
+          (cache) =>
+            cache.queryKey(String(this.table), 'aggregate', [query, params]),
+          () => this.query(query, params)
         );
-        return row || null;
+        return rows.map((row) => ({
+          ...Object.fromEntries(by.map((field) => [field, row[field]])),
+          ...readAggregates(row, selected),
+        }));
       });
-      console.log(`[${this.table}] Delete operation took ${executionTime}ms`);
-      return result;
     } catch (error) {
-      console.error(`[${this.table}] Error in delete method:`, error);
-      throw new Error(`Error in delete method`);
+      throw toSquirmyError(error, {
+        model: String(this.table),
+        operation,
+      });
     }
   }
 
-  async deleteMany(where: Partial<ModelData<T>>): Promise<number> {
-    try {
-      const [result, executionTime] = await measureExecutionTime(async () => {
-        const whereConditions = Object.entries(where)
-          .map(([key], index) => `"${key}" = $${index + 1}`)
-          .join(' AND ');
-        const query = `DELETE FROM "${this.table}" WHERE ${whereConditions}`;
-        const { rowCount } = await this.pool.query(query, Object.values(where));
-        return rowCount!;
-      });
-      console.log(
-        `[${this.table}] DeleteMany operation took ${executionTime}ms`
-      );
-      return result;
-    } catch (error) {
-      console.error(`[${this.table}] Error in deleteMany method:`, error);
-      throw new Error(`Error in deleteMany method`);
+  async findAllWithRelations(
+    options: Omit<FindAllOptions<ModelData<T>>, 'include'> = {},
+    relations: RelationPath<keyof ModelRelations<T> & string>[] = []
+  ): Promise<Selected<ModelData<T>>[]> {
+    return this.findAll({ ...options, include: relations });
+  }
+
+  private relatedBuilder(modelName: string): QueryBuilder<any> {
+    if (!this.schema[modelName]) {
+      throw new Error(`Related model "${modelName}" not found in schema`);
     }
+    return new QueryBuilder(modelName, this.pool, this.schema, this.options);
+  }
+
+  private primaryKeyColumns(): string[] {
+    return primaryKeyColumns(this.schema[this.table]);
   }
-  private validateData(data: Partial<ModelData<T>>, methodName: string): void {
-    const missingRequired = this.required.filter((field) => !(field in data));
-    if (missingRequired.length > 0) {
+
+  // Relations match on a single column; composite keys need `references`.
+  private primaryKeyColumn(): string {
+    const primaryKey = this.primaryKeyColumns();
+    if (primaryKey.length > 1) {
       throw new Error(
-        `Missing required fields in model "${
-          this.table
-        }" (method: ${methodName}): ${missingRequired.join(', ')}`
+        `"${this.table}" has a composite primary key; set "references" on its relations`
       );
     }
+    return primaryKey[0];
+  }
 
-    const invalidFields = Object.keys(data).filter(
-      (field) => !this.fields[field] && !this.optional.includes(field)
-    );
-    if (invalidFields.length > 0) {
-      throw new Error(`Invalid fields: ${invalidFields.join(', ')}`);
+  /**
+   * Maps a by-key argument onto the primary key columns. Composite keys must
+   * be given as an object with a value for every column.
+   */
+  private keyValues(id: PrimaryKeyValue): Record<string, unknown> {
+    const primaryKey = this.primaryKeyColumns();
+    if (id === null || typeof id !== 'object') {
+      if (primaryKey.length > 1) {
+        throw new Error(
+          `"${
+            this.table
+          }" has a composite primary key; pass { ${primaryKey.join(', ')} }`
+        );
+      }
+      return { [primaryKey[0]]: id };
+    }
+    const values: Record<string, unknown> = {};
+    for (const column of primaryKey) {
+      if (id[column] === undefined || id[column] === null) {
+        throw new Error(
+          `Missing primary key column "${column}" for "${this.table}"`
+        );
+      }
+      values[column] = id[column];
     }
+    return values;
   }
 
-  private validatePartialData(data: Partial<ModelData<T>>): void {
-    const modelSchema = this.schema[this.table];
-    const invalidFields = Object.keys(data).filter(
-      (field) => !(field in modelSchema.fields)
+  private keyCondition(key: Record<string, unknown>, params: any[]): string {
+    return Object.entries(key)
+      .map(([column, value]) => {
+        params.push(value);
+        return `${quoteIdentifier(column)} = $${params.length}`;
+      })
+      .join(' AND ');
+  }
+
+  /**
+   * A row's key as used in cache keys and hook contexts: the value of a
+   * single-column key, or the composite key's values in declaration order.
+   */
+  private primaryKeyValue(row: Record<string, any>): unknown {
+    const primaryKey = this.primaryKeyColumns();
+    return primaryKey.length === 1
+      ? row[primaryKey[0]]
+      : primaryKey.map((column) => row[column]);
+  }
+
+  /**
+   * Columns a read selects: `select` as given, or every field except hidden
+   * and omitted ones. Required columns the caller needs internally (relation
+   * keys, cursor fields) are added and reported as `extra` so they can be
+   * stripped afterwards. `null` means every column of the table.
+   */
+  private projection(
+    options: { select?: PropertyKey[]; omit?: PropertyKey[] },
+    required: string[] = []
+  ): { columns: string[] | null; extra: string[] } {
+    const { select, omit } = options;
+    if (!select && !omit && this.hidden.length === 0) {
+      return { columns: null, extra: [] };
+    }
+    for (const field of [...(select ?? []), ...(omit ?? [])].map(String)) {
+      if (!(field in this.fields)) {
+        throw new Error(
+          `Unknown field "${field}" in select for "${this.table}"`
+        );
+      }
+    }
+    const omitted = (omit ?? []).map(String);
+    const visible = (
+      select
+        ? select.map(String)
+        : Object.keys(this.fields).filter(
+            (field) => !this.hidden.includes(field)
+          )
+    ).filter((field) => !omitted.includes(field));
+    const extra = [...new Set(required)].filter(
+      (field) => !visible.includes(field)
     );
+    return { columns: [...visible, ...extra], extra };
+  }
 
-    if (invalidFields.length > 0) {
-      throw new Error(
-        `Invalid fields in model "${
-          this.table
-        }" (method: update): ${invalidFields.join(', ')}`
-      );
+  private columnList(columns: string[] | null, alias?: string): string {
+    const prefix = alias ? `${alias}.` : '';
+    if (!columns) {
+      return `${prefix}*`;
+    }
+    return columns
+      .map((column) => `${prefix}${quoteIdentifier(column)}`)
+      .join(', ');
+  }
+
+  private selectClause(
+    options: { distinct?: boolean; distinctOn?: PropertyKey[] },
+    columns: string[] | null
+  ): string {
+    let distinct = '';
+    if (options.distinctOn) {
+      for (const field of options.distinctOn.map(String)) {
+        if (!(field in this.fields)) {
+          throw new Error(
+            `Unknown field "${field}" in distinctOn for "${this.table}"`
+          );
+        }
+      }
+      distinct = `DISTINCT ON (${options.distinctOn
+        .map((field) => quoteIdentifier(String(field)))
+        .join(', ')}) `;
+    } else if (options.distinct) {
+      distinct = 'DISTINCT ';
+    }
+    return `SELECT ${distinct}${this.columnList(columns)}`;
+  }
+
+  private stripColumns<R>(rows: R[], columns: string[]): R[] {
+    for (const row of rows) {
+      for (const column of columns) {
+        delete (row as Record<string, any>)[column];
+      }
+    }
+    return rows;
+  }
+
+  // Rows returned by writes leave out hidden fields, like reads do.
+  private hideFields<R>(row: R): R {
+    if (!row || this.hidden.length === 0) {
+      return row;
+    }
+    const visible = { ...row } as Record<string, any>;
+    for (const field of this.hidden) {
+      delete visible[field];
+    }
+    return visible as R;
+  }
+
+  // The key of each row that its relations are matched on.
+  private relationParentKey(relation: Relation): string {
+    return relation.type === 'belongsTo'
+      ? relation.foreignKey
+      : String(relation.references || this.primaryKeyColumn());
+  }
+
+  private includeKeys(include?: Include): string[] {
+    return Object.keys(normalizeInclude(include)).flatMap((relationName) => {
+      const relation = this.relations[relationName];
+      return relation ? [this.relationParentKey(relation)] : [];
+    });
+  }
+
+  private async loadIncludes(
+    rows: Record<string, any>[],
+    include?: Include
+  ): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+    for (const [relationName, options] of Object.entries(
+      normalizeInclude(include)
+    )) {
+      const relation = this.relations[relationName];
+      if (!relation) {
+        throw new Error(
+          `Relation "${relationName}" not found in schema for "${this.table}"`
+        );
+      }
+      await this.loadRelation(rows, relationName, relation, options);
+    }
+  }
+
+  /**
+   * Loads one relation for every row with a single query, then attaches the
+   * matches under the relation name. Each related row is selected with the
+   * parent key it belongs to as "__parent", so all relation types can be
+   * grouped the same way.
+   */
+  private async loadRelation(
+    rows: Record<string, any>[],
+    relationName: string,
+    relation: Relation,
+    options: IncludeOptions
+  ): Promise<void> {
+    const related = this.relatedBuilder(relation.model);
+    const single = relation.type === 'belongsTo' || relation.type === 'hasOne';
+    const parentKey = this.relationParentKey(relation);
+    const { columns, extra } = related.projection(options, [
+      ...related.includeKeys(options.include),
+      ...(options.orderBy ? [options.orderBy] : []),
+    ]);
+
+    const keys = [
+      ...new Set(
+        rows
+          .map((row) => row[parentKey])
+          .filter((key) => key !== null && key !== undefined)
+      ),
+    ];
+    const params: any[] = [keys];
+    const conditions = related.readConditions(options.where, params, options);
+
+    let source: string;
+    switch (relation.type) {
+      case 'belongsTo': {
+        const references = referencedColumn(this.schema, relation);
+        source = `SELECT ${related.columnList(
+          columns
+        )}, "${references}" AS "__parent" FROM "${
+          relation.model
+        }" WHERE "${references}" = ANY($1)${
+          conditions ? ` AND (${conditions})` : ''
+        }`;
+        break;
+      }
+      case 'hasOne':
+      case 'hasMany':
+        source = `SELECT ${related.columnList(columns)}, "${
+          relation.foreignKey
+        }" AS "__parent" FROM "${relation.model}" WHERE "${
+          relation.foreignKey
+        }" = ANY($1)${conditions ? ` AND (${conditions})` : ''}`;
+        break;
+      case 'manyToMany':
+        if (!relation.junctionTable || !relation.relatedKey) {
+          throw new Error(
+            `Invalid manyToMany relation configuration for "${relation.model}"`
+          );
+        }
+        source = `SELECT ${related.columnList(columns, 'related')}, junction."${
+          relation.foreignKey
+        }" AS "__parent" FROM "${
+          relation.junctionTable
+        }" junction JOIN (SELECT * FROM "${relation.model}"${
+          conditions ? ` WHERE ${conditions}` : ''
+        }) related ON related."${related.primaryKeyColumn()}" = junction."${
+          relation.relatedKey
+        }" WHERE junction."${relation.foreignKey}" = ANY($1)`;
+        break;
+    }
+
+    let orderBy = '';
+    if (options.orderBy) {
+      if (!(options.orderBy in related.fields)) {
+        throw new Error(
+          `Unknown field "${options.orderBy}" in orderBy for "${relation.model}"`
+        );
+      }
+      orderBy = ` ORDER BY "${options.orderBy}"`;
+    }
+
+    let query: string;
+    if (options.limit && !single) {
+      // The limit applies per parent row, not to the whole batch.
+      params.push(options.limit);
+      query = `SELECT * FROM (SELECT source.*, ROW_NUMBER() OVER (PARTITION BY "__parent"${orderBy}) AS "__rank" FROM (${source}) source) ranked WHERE "__rank" <= $${params.length} ORDER BY "__rank"`;
+    } else {
+      query = `SELECT * FROM (${source}) source${orderBy}`;
+    }
+
+    const relatedRows =
+      keys.length > 0 ? await related.query(query, params) : [];
+    const parents = relatedRows.map((row) => {
+      const parent = row.__parent;
+      delete row.__parent;
+      delete row.__rank;
+      return parent;
+    });
+    await related.loadIncludes(relatedRows, options.include);
+    related.stripColumns(relatedRows, extra);
+
+    const grouped = new Map<string, any[]>();
+    relatedRows.forEach((row, index) => {
+      const key = String(parents[index]);
+      grouped.set(key, [...(grouped.get(key) ?? []), row]);
+    });
+
+    for (const row of rows) {
+      const matches = grouped.get(String(row[parentKey])) ?? [];
+      (row as Record<string, any>)[relationName] = single
+        ? matches[0] ?? null
+        : matches;
+    }
+  }
+
+  /**
+   * Reads through the shared cache. Builders bound to a transaction client
+   * bypass it, so uncommitted rows are never cached. Scoped builders keep
+   * entries of their own, keyed by the scope's values and settings, since
+   * row-level security can make even unfiltered reads differ per scope.
+   */
+  private async cached<V>(
+    key: (cache: QueryCache) => string,
+    load: () => Promise<V>
+  ): Promise<V> {
+    const { cache } = this.options;
+    if (
+      !cache ||
+      !cache.isEnabled(String(this.table)) ||
+      !(this.pool instanceof Pool)
+    ) {
+      return load();
+    }
+    const { scope } = this.options;
+    const cacheKey = scope
+      ? cache.queryKey(String(this.table), 'scoped', [
+          scope.values,
+          scope.settings,
+          key(cache),
+        ])
+      : key(cache);
+    const hit = await cache.get<V>(cacheKey);
+    if (hit !== undefined) {
+      return hit;
+    }
+    const value = await load();
+    if (value !== null && value !== undefined) {
+      await cache.set(String(this.table), cacheKey, value);
+    }
+    return value;
+  }
+
+  /**
+   * Drops cached queries of the model and the given rows (every row when no
+   * primary keys are known). Inside a transaction this runs again after
+   * COMMIT, in case another reader cached the old rows in between.
+   */
+  private async invalidateCache(
+    ids?: any[],
+    model: string = String(this.table)
+  ): Promise<void> {
+    const { cache } = this.options;
+    if (!cache) {
+      return;
+    }
+    // Rows of tables with cascading foreign keys change along with the model's.
+    const dependents = cascadingModels(this.schema, model);
+    const invalidate = async () => {
+      await cache.invalidate(model, ids);
+      for (const dependent of dependents) {
+        await cache.invalidate(dependent);
+      }
+    };
+    await invalidate();
+    if (!(this.pool instanceof Pool)) {
+      await afterCommit(this.pool, invalidate);
     }
   }
+
+  /**
+   * Deletes a row and runs the delete hooks. Rows of a model with
+   * `softDelete` are only marked deleted; `forceDelete` removes them.
+   */
+  async delete(id: PrimaryKeyValue): Promise<ModelData<T> | null> {
+    return this.deleteRow(id, 'delete', !this.softDeletes);
+  }
+
+  /** Removes a row even when its model soft-deletes. */
+  async forceDelete(id: PrimaryKeyValue): Promise<ModelData<T> | null> {
+    return this.deleteRow(id, 'forceDelete', true);
+  }
+
+  private async deleteRow(
+    id: PrimaryKeyValue,
+    operation: string,
+    force: boolean
+  ): Promise<ModelData<T> | null> {
+    return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
+      try {
+        return await this.measure(operation, async () => {
+          await tx.runBeforeHook('beforeDelete', id, { id });
+          const key = this.keyValues(id);
+          const params: any[] = [];
+          const conditions = this.writeConditions(
+            this.keyCondition(key, params),
+            params
+          );
+          const [row] = force
+            ? await tx.query(
+                `DELETE FROM "${this.table}" WHERE ${conditions} RETURNING *`,
+                params
+              )
+            : await tx.markDeleted(conditions, params);
+          await tx.invalidateCache([this.primaryKeyValue(key)]);
+          await tx.runAfterHook('afterDelete', row || null, { id });
+          return this.hideFields(row || null);
+        });
+      } catch (error) {
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation,
+        });
+      }
+    });
+  }
+
+  async deleteMany(
+    where: WhereClause<ModelData<T>>,
+    options: DeleteManyOptions = {}
+  ): Promise<number> {
+    return this.withTransaction(async (client) => {
+      const tx = this.bind(client);
+      try {
+        return await this.measure('deleteMany', async () => {
+          ({ where } = await tx.runBeforeHook('beforeDeleteMany', { where }));
+          const params: any[] = [];
+          const whereConditions = this.whereConditions(where, params);
+          if (!whereConditions) {
+            throw new Error('deleteMany requires at least one where condition');
+          }
+          const conditions = this.writeConditions(whereConditions, params);
+          let count: number;
+          if (this.softDeletes && !options.force) {
+            count = (await tx.markDeleted(conditions, params)).length;
+          } else {
+            const { rowCount } = await tx.execute(
+              `DELETE FROM "${this.table}" WHERE ${conditions}`,
+              params
+            );
+            count = rowCount!;
+          }
+          await tx.invalidateCache();
+          await tx.runAfterHook('afterDeleteMany', { where, count });
+          return count;
+        });
+      } catch (error) {
+        throw toSquirmyError(error, {
+          model: String(this.table),
+          operation: 'deleteMany',
+        });
+      }
+    });
+  }
 }
@@ -0,0 +1,133 @@
+/** Column that marks a row of a soft-delete model as deleted. */
+export const DELETED_AT = 'deletedAt';
+
+/**
+ * Field types a search column can be generated from. Casting other types to
+ * text is not immutable, which generated columns require.
+ */
+export const SEARCHABLE_TYPES = ['text', 'varchar'];
+
+/** Whether a field of the type can be searched, `varchar(255)` included. */
+export function isSearchableType(fieldType: SchemaField): boolean {
+  return SEARCHABLE_TYPES.includes(
+    String(fieldType)
+      .toLowerCase()
+      .replace(/\s*\(.*\)$/, '')
+  );
+}
+
+/** Names of the timestamp columns a model's `timestamps` option manages. */
+export function timestampColumns(model: Schema[string]): {
+  createdAt?: string;
+  updatedAt?: string;
+} {
+  const { timestamps } = model;
+  if (!timestamps) {
+    return {};
+  }
+  const options: TimestampsOptions = timestamps === true ? {} : timestamps;
+  return {
+    createdAt:
+      options.createdAt === false
+        ? undefined
+        : options.createdAt ?? 'createdAt',
+    updatedAt:
+      options.updatedAt === false
+        ? undefined
+        : options.updatedAt ?? 'updatedAt',
+  };
+}
+
+/**
+ * A model's `search` option with its defaults filled in and every field
+ * given a weight.
+ */
+export function searchConfig(
+  model: Schema[string]
+):
+  | { column: string; language: string; fields: Record<string, SearchWeight> }
+  | undefined {
+  const { search } = model;
+  if (!search) {
+    return undefined;
+  }
+  const fields = Array.isArray(search.fields)
+    ? Object.fromEntries(
+        search.fields.map((field): [string, SearchWeight] => [field, 'D'])
+      )
+    : search.fields;
+  return {
+    column: search.column ?? 'searchVector',
+    language: search.language ?? 'english',
+    fields,
+  };
+}
+
+/**
+ * Adds the columns implied by model flags to `fields`, so that table
+ * creation, migrations, validation and generated types all see them.
+ * Managed timestamps are also made required and default to now(), and the
+ * search column is hidden and gets a GIN index.
+ */
+export function normalizeSchema(schema: Schema): Schema {
+  const normalized: Schema = {};
+  for (const [modelName, model] of Object.entries(schema)) {
+    const fields = { ...model.fields };
+    const required = [...(model.required || [])];
+    const defaults = { ...model.defaults };
+    const hidden = [...(model.hidden || [])];
+    const indexes = [...(model.indexes || [])];
+    if (model.softDelete && !(DELETED_AT in fields)) {
+      fields[DELETED_AT] = 'timestamp';
+    }
+
+    const timezone =
+      typeof model.timestamps === 'object' && model.timestamps.timezone;
+    const { createdAt, updatedAt } = timestampColumns(model);
+    for (const column of [createdAt, updatedAt]) {
+      if (!column) continue;
+      if (!(column in fields)) {
+        fields[column] = timezone ? 'timestamptz' : 'timestamp';
+      }
+      if (!required.includes(column)) {
+        required.push(column);
+      }
+      if (!(column in defaults)) {
+        defaults[column] = { sql: 'now()' };
+      }
+    }
+
+    const search = searchConfig(model);
+    if (search) {
+      for (const field of Object.keys(search.fields)) {
+        if (field in fields && !isSearchableType(fields[field])) {
+          throw new Error(
+            `Search field "${modelName}.${field}" must be text or varchar, not ${String(
+              fields[field]
+            ).toLowerCase()}`
+          );
+        }
+      }
+      if (!(search.column in fields)) {
+        fields[search.column] = 'tsvector';
+      }
+      if (!hidden.includes(search.column)) {
+        hidden.push(search.column);
+      }
+      const name = `${modelName}_${search.column}_idx`;
+      if (!indexes.some((index) => index.name === name)) {
+        indexes.push({ name, fields: [search.column], using: 'gin' });
+      }
+    }
+
+    normalized[modelName] = {
+      ...model,
+      fields,
+      ...(required.length > 0 ? { required } : {}),
+      ...(Object.keys(defaults).length > 0 ? { defaults } : {}),
+      ...(hidden.length > 0 ? { hidden } : {}),
+      ...(indexes.length > 0 ? { indexes } : {}),
+    };
+  }
+  return normalized;
+}
@@ -0,0 +1,63 @@
+import type { PoolClient } from 'pg';
+import { toSquirmyError } from './errors';
+
+/** The scope a model builder is confined to, as checked by `createScope`. */
+export type ModelScope = {
+  values: ScopeValues;
+  settings: Record<string, string>;
+};
+
+/**
+ * Checks the arguments of `squirmy.scoped`: every value must be set and be a
+ * field of at least one model, and every setting must name a scope field.
+ */
+export function createScope(
+  schema: Schema,
+  values: ScopeValues,
+  options: ScopeOptions = {}
+): ModelScope {
+  for (const [field, value] of Object.entries(values)) {
+    if (value === undefined || value === null) {
+      throw new Error(`Scope value for "${field}" is missing`);
+    }
+    if (!Object.values(schema).some((model) => field in model.fields)) {
+      throw new Error(`No model has the scope field "${field}"`);
+    }
+  }
+  const settings = options.settings ?? {};
+  for (const [field, name] of Object.entries(settings)) {
+    if (!(field in values)) {
+      throw new Error(
+        `Setting "${name}" names "${field}", which is not scoped`
+      );
+    }
+  }
+  return { values: { ...values }, settings: { ...settings } };
+}
+
+export function hasScopeSettings(scope?: ModelScope): boolean {
+  return Boolean(scope) && Object.keys(scope!.settings).length > 0;
+}
+
+/**
+ * Sets the scope's Postgres settings until the client's transaction ends, so
+ * they never leak to the next user of a pooled connection.
+ */
+export async function applyScopeSettings(
+  client: PoolClient,
+  scope?: ModelScope
+): Promise<void> {
+  if (!scope || !hasScopeSettings(scope)) {
+    return;
+  }
+  const params: string[] = [];
+  const calls = Object.entries(scope.settings).map(([field, name]) => {
+    params.push(name, String(scope.values[field]));
+    return `set_config($${params.length - 1}, $${params.length}, true)`;
+  });
+  try {
+    await client.query(`SELECT ${calls.join(', ')}`, params);
+  } catch (error) {
+    throw toSquirmyError(error, { operation: 'scope' });
+  }
+}
@@ -0,0 +1,112 @@
+type Chunk = string | SqlFragment | { value: unknown };
+
+/**
+ * A piece of SQL whose values are kept apart from its text. Compiling it
+ * turns each value into a bind parameter and splices nested fragments in
+ * place, numbering the placeholders across all of them.
+ */
+export class SqlFragment {
+  private readonly chunks: readonly Chunk[];
+
+  constructor(chunks: readonly Chunk[]) {
+    this.chunks = chunks;
+  }
+
+  /**
+   * Appends the fragment's values to `params` and returns its text, with
+   * placeholders numbered after the parameters already there.
+   */
+  compile(params: unknown[]): string {
+    let text = '';
+    for (const chunk of this.chunks) {
+      if (typeof chunk === 'string') {
+        text += chunk;
+      } else if (chunk instanceof SqlFragment) {
+        text += chunk.compile(params);
+      } else {
+        params.push(chunk.value);
+        text += `$${params.length}`;
+      }
+    }
+    return text;
+  }
+
+  toQuery(): { text: string; values: unknown[] } {
+    const values: unknown[] = [];
+    const text = this.compile(values);
+    return { text, values };
+  }
+}
+
+/**
+ * Tagged template for SQL: interpolated values become bind parameters and
+ * interpolated fragments are inserted as SQL.
+ *
+ *     sql`SELECT * FROM ${sql.identifier('User')} WHERE "age" > ${age}`
+ */
+export function sql(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): SqlFragment {
+  const chunks: Chunk[] = [];
+  strings.forEach((text, index) => {
+    if (text) {
+      chunks.push(text);
+    }
+    if (index < values.length) {
+      const value = values[index];
+      chunks.push(value instanceof SqlFragment ? value : { value });
+    }
+  });
+  return new SqlFragment(chunks);
+}
+
+/** A double-quoted identifier; several names are joined with dots. */
+sql.identifier = (...names: string[]): SqlFragment =>
+  new SqlFragment([names.map(quoteIdentifier).join('.')]);
+
+/** SQL inserted as written. Never pass it input from outside the program. */
+sql.raw = (text: string): SqlFragment => new SqlFragment([text]);
+
+/**
+ * The items separated by `separator`. Fragments are inserted as SQL and
+ * anything else as a parameter, so `sql.join(ids)` renders `$1, $2, $3`.
+ */
+sql.join = (
+  items: readonly unknown[],
+  separator: string | SqlFragment = ', '
+): SqlFragment => {
+  const chunks: Chunk[] = [];
+  items.forEach((item, index) => {
+    if (index > 0) {
+      chunks.push(separator);
+    }
+    chunks.push(item instanceof SqlFragment ? item : { value: item });
+  });
+  return new SqlFragment(chunks);
+};
+
+/** Quotes a name for use as an identifier, doubling embedded quotes. */
+export function quoteIdentifier(name: string): string {
+  if (typeof name !== 'string' || name === '' || name.includes('\0')) {
+    throw new Error(`Invalid SQL identifier: ${JSON.stringify(name)}`);
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Text and values for a raw-query entry point, which takes either a string
+ * with its parameters or a fragment that carries its own.
+ */
+export function toQuery(
+  query: string | SqlFragment,
+  params: any[] = []
+): { text: string; values: any[] } {
+  if (typeof query === 'string') {
+    return { text: query, values: params };
+  }
+  if (params.length > 0) {
+    throw new Error('Parameters cannot be passed along with a sql fragment');
+  }
+  return query.toQuery();
+}
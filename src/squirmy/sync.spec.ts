@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { cascadingModels } from './sync';
+
+const schema = {
+  User: {
+    fields: { id: 'serial' },
+    relations: {
+      roles: {
+        type: 'manyToMany',
+        model: 'Role',
+        foreignKey: 'userId',
+        relatedKey: 'roleId',
+        junctionTable: 'UserRoles',
+      },
+    },
+  },
+  Role: { fields: { id: 'serial' } },
+  Post: {
+    fields: { id: 'serial', authorId: 'integer' },
+    relations: {
+      author: {
+        type: 'belongsTo',
+        model: 'User',
+        foreignKey: 'authorId',
+        references: 'id',
+        onDelete: 'CASCADE',
+      },
+    },
+  },
+  Comment: {
+    fields: { id: 'serial', postId: 'integer', editorId: 'integer' },
+    relations: {
+      post: {
+        type: 'belongsTo',
+        model: 'Post',
+        foreignKey: 'postId',
+        references: 'id',
+        onDelete: 'SET NULL',
+      },
+      editor: {
+        type: 'belongsTo',
+        model: 'User',
+        foreignKey: 'editorId',
+        references: 'id',
+        onDelete: 'RESTRICT',
+      },
+    },
+  },
+} as unknown as Schema;
+
+describe('cascadingModels', () => {
+  test('follows cascading foreign keys and sync junction tables', () => {
+    expect(cascadingModels(schema, 'User').sort()).toEqual([
+      'Comment',
+      'Post',
+      'UserRoles',
+    ]);
+    expect(cascadingModels(schema, 'Role')).toEqual(['UserRoles']);
+    expect(cascadingModels(schema, 'Comment')).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  belongsToRelations,
+  createIndexStatement,
+  createTableStatement,
+  foreignKeyDefinition,
+  foreignKeyName,
+  primaryKeyColumns,
+} from './ddl';
+
+// Column a junction table points at in a model: the manyToMany relation's
+// `references`, or the model's primary key.
+function junctionKey(
+  schema: Schema,
+  modelName: string,
+  references?: string | number
+): string {
+  if (references) {
+    return String(references);
+  }
+  const primaryKey = primaryKeyColumns(schema[modelName]);
+  if (primaryKey.length > 1) {
+    throw new Error(
+      `"${modelName}" has a composite primary key; set "references" on its relations`
+    );
+  }
+  return primaryKey[0];
+}
+
+// A column pointing at a serial key holds its values but has no sequence.
+function referencingType(type: SchemaField): SchemaField {
+  const referencing: Record<string, string> = {
+    serial: 'integer',
+    bigserial: 'bigint',
+  };
+  return referencing[String(type).toLowerCase()] ?? type;
+}
+
+/**
+ * Models for the junction tables of manyToMany relations that the schema does
+ * not declare itself. Each has a column per side, keyed on both and removed
+ * with either row it points at.
+ */
+export function junctionModels(schema: Schema): Schema {
+  const junctions: Schema = {};
+  for (const [modelName, model] of Object.entries(schema)) {
+    for (const relation of Object.values(model.relations || {})) {
+      const { junctionTable, relatedKey } = relation;
+      if (relation.type !== 'manyToMany' || !junctionTable) continue;
+      if (junctionTable in schema || junctionTable in junctions) continue;
+      if (!relatedKey) {
+        throw new Error(
+          `Invalid manyToMany relation configuration for "${relation.model}"`
+        );
+      }
+      const related = schema[relation.model];
+      if (!related) {
+        throw new Error(
+          `Related model "${relation.model}" not found in schema`
+        );
+      }
+
+      // The other side may declare the same junction with its own key.
+      const inverse = Object.values(related.relations || {}).find(
+        (candidate) =>
+          candidate.type === 'manyToMany' &&
+          candidate.junctionTable === junctionTable
+      );
+      const references = junctionKey(schema, modelName, relation.references);
+      const relatedReferences = junctionKey(
+        schema,
+        relation.model,
+        inverse?.references
+      );
+
+      junctions[junctionTable] = {
+        fields: {
+          [relation.foreignKey]: referencingType(model.fields[references]),
+          [relatedKey]: referencingType(related.fields[relatedReferences]),
+        },
+        primaryKey: [relation.foreignKey, relatedKey],
+        required: [relation.foreignKey, relatedKey],
+        relations: {
+          [relation.foreignKey]: {
+            type: 'belongsTo',
+            model: modelName,
+            foreignKey: relation.foreignKey,
+            references,
+            onDelete: 'CASCADE',
+          },
+          [relatedKey]: {
+            type: 'belongsTo',
+            model: relation.model,
+            foreignKey: relatedKey,
+            references: relatedReferences,
+            onDelete: 'CASCADE',
+          },
+        },
+      };
+    }
+  }
+  return junctions;
+}
+
+/**
+ * Models whose rows the database changes when rows of the given model are
+ * deleted or re-keyed: those with a foreign key to it that cascades or sets
+ * NULL, the junction tables created by sync included, and theirs in turn.
+ */
+export function cascadingModels(schema: Schema, modelName: string): string[] {
+  const models = { ...junctionModels(schema), ...schema };
+  const found = new Set<string>();
+  const pending = [modelName];
+  while (pending.length > 0) {
+    const target = pending.pop()!;
+    for (const name of Object.keys(models)) {
+      const changes = belongsToRelations(name, models).some(
+        (relation) =>
+          relation.model === target &&
+          [relation.onDelete, relation.onUpdate].some(
+            (action) => action === 'CASCADE' || action === 'SET NULL'
+          )
+      );
+      if (changes && name !== modelName && !found.has(name)) {
+        found.add(name);
+        pending.push(name);
+      }
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Orders models so that every belongsTo target is created before the models
+ * pointing at it. Foreign keys that close a cycle cannot be created inline and
+ * are returned separately, to be added once both tables exist.
+ */
+export function sortModels(schema: Schema): {
+  order: string[];
+  deferred: { modelName: string; relation: Relation }[];
+} {
+  const order: string[] = [];
+  const deferred: { modelName: string; relation: Relation }[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (modelName: string) => {
+    state.set(modelName, 'visiting');
+    for (const relation of belongsToRelations(modelName, schema)) {
+      if (!schema[relation.model]) {
+        throw new Error(
+          `Related model "${relation.model}" not found in schema`
+        );
+      }
+      if (relation.model === modelName) continue;
+      const target = state.get(relation.model);
+      if (target === 'visiting') {
+        deferred.push({ modelName, relation });
+      } else if (target === undefined) {
+        visit(relation.model);
+      }
+    }
+    state.set(modelName, 'done');
+    order.push(modelName);
+  };
+
+  for (const modelName of Object.keys(schema)) {
+    if (!state.has(modelName)) {
+      visit(modelName);
+    }
+  }
+  return { order, deferred };
+}
+
+/**
+ * Every statement needed to create the schema from scratch: tables in
+ * dependency order with their keys, unique constraints and defaults, then
+ * their indexes, then the foreign keys left out to break cycles. Each
+ * statement leaves existing objects alone, so running them again is harmless.
+ */
+export function syncStatements(schema: Schema): string[] {
+  const fullSchema = { ...schema, ...junctionModels(schema) };
+  const { order, deferred } = sortModels(fullSchema);
+  const statements: string[] = [];
+
+  for (const modelName of order) {
+    statements.push(
+      createTableStatement(modelName, fullSchema, {
+        foreignKeys: (relation) =>
+          !deferred.some(
+            (entry) =>
+              entry.modelName === modelName && entry.relation === relation
+          ),
+      })
+    );
+    for (const index of fullSchema[modelName].indexes || []) {
+      statements.push(
+        createIndexStatement(modelName, index, { ifNotExists: true })
+      );
+    }
+  }
+
+  // Postgres has no ADD CONSTRAINT IF NOT EXISTS.
+  for (const { modelName, relation } of deferred) {
+    statements.push(`DO $$ BEGIN
+  ALTER TABLE "${modelName}" ADD CONSTRAINT "${foreignKeyName(
+      modelName,
+      relation.foreignKey
+    )}" ${foreignKeyDefinition(modelName, fullSchema, relation)};
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$`);
+  }
+  return statements;
+}
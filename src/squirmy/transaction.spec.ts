@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import type { PoolClient } from 'pg';
+import { runInSavepoint } from './transaction';
+
+// Records every statement and fails those `fail` matches.
+function fakeClient(fail: (text: string) => boolean = () => false) {
+  const statements: string[] = [];
+  const client = {
+    async query(text: string) {
+      statements.push(text);
+      if (fail(text)) {
+        throw new Error(`failed: ${text}`);
+      }
+      return { rows: [], rowCount: 0 };
+    },
+    release() {},
+  };
+  return { client: client as unknown as PoolClient, statements };
+}
+
+describe('runInSavepoint', () => {
+  test('rethrows the original error when the rollback fails', async () => {
+    const { client } = fakeClient((text) => text.startsWith('ROLLBACK'));
+    const original = new Error('insert failed');
+
+    const thrown = await runInSavepoint(client, async () => {
+      throw original;
+    }).catch((error) => error);
+
+    expect(thrown).toBe(original);
+    expect(thrown.cause.message).toContain('failed: ROLLBACK TO SAVEPOINT');
+  });
+
+  test('never reuses the name of an open savepoint', async () => {
+    const { client, statements } = fakeClient();
+    let finish = () => {};
+    const open = runInSavepoint(
+      client,
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+    await runInSavepoint(client, async () => {});
+    await runInSavepoint(client, async () => {});
+    await runInSavepoint(client, async () => {});
+    finish();
+    await open;
+
+    const names = statements
+      .filter((text) => text.startsWith('SAVEPOINT'))
+      .map((text) => text.split(' ')[1]);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
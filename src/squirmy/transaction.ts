@@ -0,0 +1,215 @@
+import type { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import type QueryBuilder from './querybuilder';
+import { toSquirmyError } from './errors';
+import { SqlFragment, toQuery } from './sql';
+import type Instrumentation from './instrumentation';
+
+const SERIALIZATION_FAILURE = '40001';
+const ISOLATION_LEVELS: IsolationLevel[] = [
+  'READ UNCOMMITTED',
+  'READ COMMITTED',
+  'REPEATABLE READ',
+  'SERIALIZABLE',
+];
+
+// Savepoints each client has created in its transaction. Names are never
+// reused, so savepoints run side by side on one client do not clash.
+const savepointCount = new WeakMap<PoolClient, number>();
+// Work deferred until the client's transaction commits.
+const commitCallbacks = new WeakMap<
+  PoolClient,
+  (() => void | Promise<void>)[]
+>();
+
+function beginStatement(options: TransactionOptions): string {
+  const { isolationLevel, readOnly } = options;
+  let statement = 'BEGIN';
+  if (isolationLevel) {
+    if (!ISOLATION_LEVELS.includes(isolationLevel)) {
+      throw new Error(`Invalid isolation level: ${isolationLevel}`);
+    }
+    statement += ` ISOLATION LEVEL ${isolationLevel}`;
+  }
+  if (readOnly) {
+    statement += ' READ ONLY';
+  }
+  return statement;
+}
+
+function isSerializationFailure(error: unknown): boolean {
+  for (let current: any = error; current; current = current.cause) {
+    if (current.code === SERIALIZATION_FAILURE) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Adds the failure at the end of the error's cause chain, so the error
+// itself is still the one the caller threw.
+function addCause(error: unknown, cause: unknown): void {
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+  while (current instanceof Error && !seen.has(current)) {
+    if (current.cause === undefined) {
+      current.cause = cause;
+      return;
+    }
+    seen.add(current);
+    current = current.cause;
+  }
+}
+
+// Only the transaction's own statements are translated into SquirmyErrors;
+// whatever the callback throws is passed on untouched.
+async function control(client: PoolClient, statement: string): Promise<void> {
+  try {
+    await client.query(statement);
+  } catch (error) {
+    throw toSquirmyError(error, { operation: 'transaction' });
+  }
+}
+
+/**
+ * Runs the callback once the client's transaction commits, or straight away
+ * when the client is not inside a transaction started by Squirmy. Callbacks
+ * are dropped if the transaction rolls back.
+ */
+export async function afterCommit(
+  client: PoolClient,
+  callback: () => void | Promise<void>
+): Promise<void> {
+  const callbacks = commitCallbacks.get(client);
+  if (!callbacks) {
+    await callback();
+    return;
+  }
+  callbacks.push(callback);
+}
+
+/**
+ * Runs the callback in a transaction on a dedicated client. The whole
+ * callback is retried when Postgres reports a serialization failure, so it
+ * should not have side effects outside the database.
+ */
+export async function runInTransaction<R>(
+  pool: Pool,
+  callback: (client: PoolClient) => Promise<R>,
+  options: TransactionOptions = {}
+): Promise<R> {
+  const { maxRetries = 3 } = options;
+  const begin = beginStatement(options);
+
+  for (let attempt = 0; ; attempt++) {
+    let client: PoolClient;
+    try {
+      client = await pool.connect();
+    } catch (error) {
+      throw toSquirmyError(error, { operation: 'transaction' });
+    }
+    let result: R;
+    let callbacks: (() => void | Promise<void>)[];
+    let broken: Error | undefined;
+    try {
+      await control(client, begin);
+      savepointCount.set(client, 0);
+      commitCallbacks.set(client, []);
+      result = await callback(client);
+      await control(client, 'COMMIT');
+      callbacks = commitCallbacks.get(client) ?? [];
+    } catch (error) {
+      // A client that cannot even roll back is discarded instead of going
+      // back to the pool, and the caller still sees the original error.
+      try {
+        await control(client, 'ROLLBACK');
+      } catch (rollbackError) {
+        broken = rollbackError as Error;
+      }
+      if (isSerializationFailure(error) && attempt < maxRetries) {
+        continue;
+      }
+      throw error;
+    } finally {
+      savepointCount.delete(client);
+      commitCallbacks.delete(client);
+      client.release(broken);
+    }
+
+    for (const afterCommitCallback of callbacks) {
+      await afterCommitCallback();
+    }
+    return result;
+  }
+}
+
+/**
+ * Runs the callback inside a SAVEPOINT on a client that already has an open
+ * transaction, so a failure only rolls back the callback's own work.
+ */
+export async function runInSavepoint<R>(
+  client: PoolClient,
+  callback: (client: PoolClient) => Promise<R>
+): Promise<R> {
+  const count = (savepointCount.get(client) ?? 0) + 1;
+  const savepoint = `squirmy_savepoint_${count}`;
+  savepointCount.set(client, count);
+  await control(client, `SAVEPOINT ${savepoint}`);
+  try {
+    const result = await callback(client);
+    await control(client, `RELEASE SAVEPOINT ${savepoint}`);
+    return result;
+  } catch (error) {
+    try {
+      await control(client, `ROLLBACK TO SAVEPOINT ${savepoint}`);
+    } catch (rollbackError) {
+      addCause(error, rollbackError);
+    }
+    throw error;
+  }
+}
+
+export class Transaction {
+  public client: PoolClient;
+  private events?: Instrumentation;
+  public models: {
+    [K in keyof ModelTypes]: QueryBuilder<K>;
+  };
+
+  constructor(
+    client: PoolClient,
+    models: {
+      [K in keyof ModelTypes]: QueryBuilder<K>;
+    },
+    events?: Instrumentation
+  ) {
+    this.client = client;
+    this.models = models;
+    this.events = events;
+  }
+
+  public async query<T extends QueryResultRow = QueryResultRow>(
+    query: string | SqlFragment,
+    params: any[] = []
+  ): Promise<QueryResult<T>> {
+    try {
+      const { text, values } = toQuery(query, params);
+      if (this.events) {
+        return await this.events.query<T>(this.client, text, values, {
+          operation: 'query',
+        });
+      }
+      return await this.client.query<T>(text, values);
+    } catch (error) {
+      throw toSquirmyError(error, { operation: 'query' });
+    }
+  }
+
+  /**
+   * Nested transactions become savepoints on the same client.
+   */
+  public async transaction<R>(
+    callback: (tx: Transaction) => Promise<R>
+  ): Promise<R> {
+    return runInSavepoint(this.client, () => callback(this));
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { shapeType, tsTypeFromSchemaType, typeDeclarations } from './typegen';
+
+describe('tsTypeFromSchemaType', () => {
+  test('follows the type pg returns for the column', () => {
+    expect(tsTypeFromSchemaType('integer')).toBe('number');
+    expect(tsTypeFromSchemaType('serial')).toBe('number');
+    expect(tsTypeFromSchemaType('boolean')).toBe('boolean');
+    expect(tsTypeFromSchemaType('timestamptz')).toBe('Date');
+    expect(tsTypeFromSchemaType('jsonb')).toBe('JsonValue');
+    expect(tsTypeFromSchemaType('bigint')).toBe('string');
+    expect(tsTypeFromSchemaType('numeric(10,2)')).toBe('string');
+    expect(tsTypeFromSchemaType('varchar(20)')).toBe('string');
+  });
+});
+
+describe('shapeType', () => {
+  test('describes unions, arrays and objects with optional keys', () => {
+    expect(shapeType('string | null')).toBe('string | null');
+    expect(shapeType(['number'])).toBe('Array<number>');
+    expect(
+      shapeType({ plan: 'string', 'seats?': 'number', 'no-reply': 'boolean' })
+    ).toBe('{ plan: string; seats?: number; "no-reply": boolean }');
+    expect(shapeType({})).toBe('{}');
+  });
+
+  test('rejects unknown types and arrays without one element shape', () => {
+    expect(() => shapeType('date')).toThrow('Unknown JSON shape type "date"');
+    expect(() => shapeType(['string', 'number'])).toThrow(
+      'A JSON array shape must list exactly one element shape'
+    );
+  });
+});
+
+describe('typeDeclarations', () => {
+  const schema: Schema = {
+    User: {
+      fields: {
+        id: 'serial',
+        email: 'varchar(255)',
+        password: 'varchar',
+        settings: 'jsonb',
+        createdAt: 'timestamp',
+      },
+      required: ['email', 'password'],
+      hidden: ['password'],
+      shapes: { settings: { theme: 'string' } },
+      relations: {
+        posts: { type: 'hasMany', model: 'Post', foreignKey: 'userId' },
+      },
+    },
+    Post: {
+      fields: { id: 'serial', userId: 'integer', title: 'varchar' },
+      required: ['userId', 'title'],
+      relations: {
+        user: { type: 'belongsTo', model: 'User', foreignKey: 'userId' },
+      },
+    },
+  } as unknown as Schema;
+
+  test('declares the select, create, update and relation types of each model', () => {
+    const declarations = typeDeclarations(schema);
+
+    expect(declarations).toContain(`type UserSelect = {
+  id: number;
+  email: string;
+  password?: string;
+  settings: { theme: string } | null;
+  createdAt: Date | null;
+};`);
+    expect(declarations).toContain(`type UserCreate = {
+  id?: number;
+  email: string;
+  password: string;
+  settings?: { theme: string } | null;
+  createdAt?: Date | null;
+};`);
+    expect(declarations).toContain(
+      'settings?: { theme: string } | null | JsonUpdate;'
+    );
+    expect(declarations).toContain(`type UserRelations = {
+  posts: PostSelect[];
+};`);
+    expect(declarations).toContain(`type PostRelations = {
+  user: UserSelect | null;
+};`);
+    expect(declarations).toContain('type ModelTypes = {');
+    expect(declarations).not.toContain('export ');
+  });
+
+  test('exports the model types and declares ModelTypes globally in module format', () => {
+    const declarations = typeDeclarations(schema, 'module');
+
+    expect(declarations).toContain('export type PostSelect = {');
+    expect(declarations).toContain('declare global {\n  type ModelTypes = {');
+  });
+});
@@ -0,0 +1,178 @@
+import { primaryKeyColumns, sqlTypeFromSchemaType } from './ddl';
+import { isJsonType } from './json';
+import { searchConfig } from './schema';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Follows the column type the field is created with, so the declared type is
+// what pg hands back for it: BIGINT and NUMERIC come back as strings.
+export function tsTypeFromSchemaType(schemaType: SchemaField): string {
+  switch (sqlTypeFromSchemaType(String(schemaType))) {
+    case 'SMALLINT':
+    case 'INTEGER':
+    case 'FLOAT':
+      return 'number';
+    case 'BOOLEAN':
+      return 'boolean';
+    case 'DATE':
+    case 'TIMESTAMP':
+    case 'TIMESTAMPTZ':
+      return 'Date';
+    case 'JSONB':
+      return 'JsonValue';
+    default:
+      return 'string';
+  }
+}
+
+function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+const shapePrimitives: Record<string, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  null: 'null',
+  json: 'JsonValue',
+};
+
+/** The TypeScript type a JSON field's shape describes. */
+export function shapeType(shape: JsonShape): string {
+  if (typeof shape === 'string') {
+    return shape
+      .split('|')
+      .map((member) => {
+        const type = shapePrimitives[member.trim()];
+        if (!type) {
+          throw new Error(`Unknown JSON shape type "${member.trim()}"`);
+        }
+        return type;
+      })
+      .join(' | ');
+  }
+  if (Array.isArray(shape)) {
+    if (shape.length !== 1) {
+      throw new Error('A JSON array shape must list exactly one element shape');
+    }
+    return `Array<${shapeType(shape[0])}>`;
+  }
+  const properties = Object.entries(shape).map(([key, value]) => {
+    const optional = key.endsWith('?');
+    const name = optional ? key.slice(0, -1) : key;
+    return `${propertyName(name)}${optional ? '?' : ''}: ${shapeType(value)}`;
+  });
+  return properties.length === 0 ? '{}' : `{ ${properties.join('; ')} }`;
+}
+
+function objectType(properties: string[]): string {
+  if (properties.length === 0) {
+    return '{}';
+  }
+  return `{\n${properties.map((property) => `  ${property};`).join('\n')}\n}`;
+}
+
+/**
+ * Whether `create` can leave the field out: it is neither required nor part
+ * of the key, or the database or Squirmy fills it in.
+ */
+function isOptionalOnCreate(model: Schema[string], field: string): boolean {
+  const required =
+    (model.required || []).includes(field) ||
+    primaryKeyColumns(model).includes(field);
+  const fieldType = String(model.fields[field]).toLowerCase();
+  return (
+    !required ||
+    fieldType === 'serial' ||
+    fieldType === 'bigserial' ||
+    field in (model.defaults || {}) ||
+    field === 'createdAt' ||
+    field === 'updatedAt'
+  );
+}
+
+function modelDeclarations(modelName: string, model: Schema[string]): string[] {
+  const primaryKey = primaryKeyColumns(model);
+  const required = model.required || [];
+  const hidden = model.hidden || [];
+  const select: string[] = [];
+  const create: string[] = [];
+  const update: string[] = [];
+  // The search column is generated and never read, so it is left out.
+  const searchColumn = searchConfig(model)?.column;
+
+  for (const [field, fieldType] of Object.entries(model.fields)) {
+    if (field === searchColumn) continue;
+    const name = propertyName(field);
+    const nullable = !primaryKey.includes(field) && !required.includes(field);
+    const shape = model.shapes?.[field];
+    const type = `${
+      shape ? shapeType(shape) : tsTypeFromSchemaType(fieldType)
+    }${nullable ? ' | null' : ''}`;
+    // Hidden fields are only there when they are selected.
+    select.push(`${name}${hidden.includes(field) ? '?' : ''}: ${type}`);
+    create.push(
+      `${name}${isOptionalOnCreate(model, field) ? '?' : ''}: ${type}`
+    );
+    // JSON fields can also be changed in place.
+    update.push(
+      `${name}?: ${type}${isJsonType(fieldType) ? ' | JsonUpdate' : ''}`
+    );
+  }
+
+  const relations = Object.entries(model.relations || {}).map(
+    ([relationName, relation]) => {
+      const many =
+        relation.type === 'hasMany' || relation.type === 'manyToMany';
+      return `${propertyName(relationName)}: ${relation.model}Select${
+        many ? '[]' : ' | null'
+      }`;
+    }
+  );
+
+  return [
+    `type ${modelName}Select = ${objectType(select)};`,
+    `type ${modelName}Create = ${objectType(create)};`,
+    `type ${modelName}Update = ${objectType(update)};`,
+    `type ${modelName}Relations = ${objectType(relations)};`,
+  ];
+}
+
+/**
+ * Builds the declarations file for a schema. Each model gets
+ * `<Model>Select` for the rows reads return, `<Model>Create`, `<Model>Update`
+ * and `<Model>Relations`, and `ModelTypes` maps model names to all four so that
+ * QueryBuilder methods are checked against them. The `module` format exports
+ * the model types and declares `ModelTypes` globally; `global` declares
+ * everything as ambient types.
+ */
+export function typeDeclarations(
+  schema: Schema,
+  format: TypesFormat = 'global'
+): string {
+  const exported = format === 'module' ? 'export ' : '';
+  const declarations = Object.entries(schema).flatMap(([modelName, model]) =>
+    modelDeclarations(modelName, model).map(
+      (declaration) => `${exported}${declaration}`
+    )
+  );
+
+  const modelTypes = `type ModelTypes = ${objectType(
+    Object.keys(schema).map(
+      (modelName) =>
+        `${propertyName(
+          modelName
+        )}: {\n    select: ${modelName}Select;\n    create: ${modelName}Create;\n    update: ${modelName}Update;\n    relations: ${modelName}Relations;\n  }`
+    )
+  )};`;
+
+  const footer =
+    format === 'module'
+      ? `declare global {\n  ${modelTypes.replace(/\n/g, '\n  ')}\n}`
+      : modelTypes;
+
+  return `// Generated by Squirmy from the schema. Do not edit.\n\n${[
+    ...declarations,
+    footer,
+  ].join('\n\n')}\n`;
+}
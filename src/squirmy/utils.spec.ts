@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test';
+import { decodeCursor, encodeCursor } from './utils';
+
+describe('encodeCursor / decodeCursor', () => {
+  test('round-trips the order values', () => {
+    const values = ['2024-01-01 00:00:00.000001+00', 42, null, 'Zoë'];
+
+    expect(decodeCursor(encodeCursor(values))).toEqual(values);
+  });
+
+  test('brings Dates back as Dates', () => {
+    const date = new Date('2024-05-06T07:08:09.123Z');
+
+    const [decoded] = decodeCursor(encodeCursor([date]));
+
+    expect(decoded).toBeInstanceOf(Date);
+    expect(decoded.getTime()).toBe(date.getTime());
+  });
+
+  test('rejects cursors it did not make', () => {
+    expect(() => decodeCursor('not a cursor')).toThrow(
+      'Invalid pagination cursor'
+    );
+    expect(() =>
+      decodeCursor(Buffer.from('{"a":1}').toString('base64url'))
+    ).toThrow('Invalid pagination cursor');
+  });
+});
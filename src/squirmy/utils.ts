@@ -1,10 +1,28 @@
-export default function measureExecutionTime<T>(
-  func: () => Promise<T>
-): Promise<[T, number]> {
-  const start = process.hrtime();
-  return func().then((result) => {
-    const end = process.hrtime(start);
-    const executionTime = (end[0] * 1000 + end[1] / 1e6).toFixed(2); // Convert to milliseconds
-    return [result, parseFloat(executionTime)];
-  });
+/**
+ * Encodes the order-column values of a row into an opaque cursor. Dates are
+ * tagged so they come back as Date objects and bind the same way they were
+ * read.
+ */
+export function encodeCursor(values: any[]): string {
+  const tagged = values.map((value) =>
+    value instanceof Date ? { $date: value.toISOString() } : value
+  );
+  return Buffer.from(JSON.stringify(tagged)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): any[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+  if (!Array.isArray(values)) {
+    throw new Error('Invalid pagination cursor');
+  }
+  return values.map((value) =>
+    value && typeof value === 'object' && '$date' in value
+      ? new Date(value.$date)
+      : value
+  );
 }
@@ -0,0 +1,221 @@
+import { ValidationError } from './errors';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks a value against the declared field type. Returns a message when the
+ * value cannot be stored in the column.
+ */
+function checkType(fieldType: string, value: unknown): string | null {
+  // A length or precision does not change what the value must be.
+  switch (fieldType.toLowerCase().replace(/\s*\(.*\)$/, '')) {
+    case 'varchar':
+    case 'text':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value)
+        ? null
+        : 'must be a UUID';
+    case 'smallint':
+    case 'integer':
+    case 'bigint':
+    case 'serial':
+    case 'bigserial':
+      return Number.isInteger(
+        typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      )
+        ? null
+        : 'must be an integer';
+    case 'numeric':
+    case 'float':
+    case 'real':
+    case 'double precision':
+      return Number.isFinite(
+        typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      )
+        ? null
+        : 'must be a number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'date':
+    case 'timestamp':
+    case 'timestamptz':
+      return (value instanceof Date && !isNaN(value.getTime())) ||
+        (typeof value === 'string' && !isNaN(Date.parse(value)))
+        ? null
+        : 'must be a date';
+    default:
+      return null;
+  }
+}
+
+export default class Validator {
+  private schema: Schema;
+  private customValidators: Record<string, CustomValidator>;
+
+  constructor(
+    schema: Schema,
+    customValidators: Record<string, CustomValidator> = {}
+  ) {
+    this.schema = schema;
+    this.customValidators = customValidators;
+  }
+
+  /**
+   * Collects every failing rule of every field and throws them together as a
+   * single ValidationError. `create` also checks required fields, while
+   * partial updates only check the fields they set.
+   */
+  async validate(
+    model: string,
+    data: Record<string, any>,
+    operation: 'create' | 'update'
+  ): Promise<void> {
+    const modelSchema = this.schema[model];
+    const rules = modelSchema.validate || {};
+    const issues: ValidationIssue[] = [];
+
+    if (operation === 'create') {
+      const defaults = modelSchema.defaults || {};
+      for (const field of modelSchema.required || []) {
+        // The database fills in a missing value from the column default.
+        if (data[field] === undefined && field in defaults) continue;
+        if (data[field] === undefined || data[field] === null) {
+          issues.push({ field, rule: 'required', message: 'is required' });
+        }
+      }
+    }
+
+    for (const [field, value] of Object.entries(data)) {
+      const fieldType = modelSchema.fields[field];
+      if (fieldType === undefined) {
+        // Fields listed in "optional" are accepted on create, as before.
+        if (
+          operation === 'update' ||
+          !(modelSchema.optional || []).includes(field)
+        ) {
+          issues.push({ field, rule: 'unknown', message: 'is not a field' });
+        }
+        continue;
+      }
+
+      // Empty uuid and timestamp values are generated when the row is written.
+      if (value === undefined || value === null) continue;
+      if (
+        !value &&
+        (fieldType === 'uuid' ||
+          fieldType === 'timestamp' ||
+          fieldType === 'timestamptz')
+      ) {
+        continue;
+      }
+
+      const typeError = checkType(String(fieldType), value);
+      if (typeError) {
+        issues.push({ field, rule: 'type', message: typeError });
+        continue;
+      }
+
+      const rule = rules[field];
+      if (rule) {
+        issues.push(
+          ...(await this.checkRules(model, field, value, rule, data))
+        );
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new ValidationError(model, operation, issues);
+    }
+  }
+
+  private async checkRules(
+    model: string,
+    field: string,
+    value: any,
+    rule: FieldValidation,
+    data: Record<string, any>
+  ): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const length =
+      typeof value === 'string' || Array.isArray(value)
+        ? value.length
+        : undefined;
+
+    if (rule.minLength !== undefined && length !== undefined) {
+      if (length < rule.minLength) {
+        issues.push({
+          field,
+          rule: 'minLength',
+          message: `must be at least ${rule.minLength} characters`,
+        });
+      }
+    }
+    if (rule.maxLength !== undefined && length !== undefined) {
+      if (length > rule.maxLength) {
+        issues.push({
+          field,
+          rule: 'maxLength',
+          message: `must be at most ${rule.maxLength} characters`,
+        });
+      }
+    }
+    if (rule.min !== undefined && Number(value) < rule.min) {
+      issues.push({
+        field,
+        rule: 'min',
+        message: `must be at least ${rule.min}`,
+      });
+    }
+    if (rule.max !== undefined && Number(value) > rule.max) {
+      issues.push({
+        field,
+        rule: 'max',
+        message: `must be at most ${rule.max}`,
+      });
+    }
+    if (
+      rule.pattern !== undefined &&
+      !new RegExp(rule.pattern).test(String(value))
+    ) {
+      issues.push({
+        field,
+        rule: 'pattern',
+        message: `must match ${rule.pattern}`,
+      });
+    }
+    if (rule.enum !== undefined && !rule.enum.includes(value)) {
+      issues.push({
+        field,
+        rule: 'enum',
+        message: `must be one of ${rule.enum.join(', ')}`,
+      });
+    }
+
+    const custom =
+      rule.custom === undefined
+        ? []
+        : Array.isArray(rule.custom)
+        ? rule.custom
+        : [rule.custom];
+    for (const name of custom) {
+      const validator = this.customValidators[name];
+      if (!validator) {
+        throw new Error(
+          `Custom validator "${name}" used by "${model}.${field}" is not registered`
+        );
+      }
+      const result = await validator(value, { model, field, data });
+      if (result === false || typeof result === 'string') {
+        issues.push({
+          field,
+          rule: name,
+          message: typeof result === 'string' ? result : 'is invalid',
+        });
+      }
+    }
+
+    return issues;
+  }
+}
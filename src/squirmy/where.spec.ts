@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { compileWhere } from './where';
+
+const context = {
+  table: 'User',
+  fields: {
+    id: 'integer',
+    name: 'varchar',
+    age: 'integer',
+    metadata: 'jsonb',
+  },
+};
+
+// Compiles the clause with a fresh parameter list.
+function compile(where: WhereClause<any>) {
+  const params: any[] = [];
+  return { sql: compileWhere(where, params, context), params };
+}
+
+describe('compileWhere', () => {
+  test('compares plain values and operators', () => {
+    expect(compile({ name: 'Ada', age: { gte: 18, lt: 65 } })).toEqual({
+      sql: '"name" = $1 AND "age" >= $2 AND "age" < $3',
+      params: ['Ada', 18, 65],
+    });
+  });
+
+  test('turns null and isNull into IS NULL checks', () => {
+    expect(compile({ name: null, age: { isNull: false } }).sql).toBe(
+      '"name" IS NULL AND "age" IS NOT NULL'
+    );
+    expect(compile({ name: { not: null } }).sql).toBe('"name" IS NOT NULL');
+  });
+
+  test('escapes LIKE wildcards in the pattern operators', () => {
+    expect(compile({ name: { contains: '50%_off' } })).toEqual({
+      sql: '"name" LIKE $1',
+      params: ['%50\\%\\_off%'],
+    });
+  });
+
+  test('binds in and notIn lists as one array', () => {
+    expect(compile({ id: [1, 2], age: { notIn: [3] } })).toEqual({
+      sql: '"id" = ANY($1) AND NOT ("age" = ANY($2))',
+      params: [[1, 2], [3]],
+    });
+    expect(compile({ id: { in: [] } }).sql).toBe('FALSE');
+  });
+
+  test('groups AND, OR and NOT', () => {
+    expect(
+      compile({ OR: [{ name: 'Ada' }, { age: { gt: 30 } }], NOT: { id: 1 } })
+    ).toEqual({
+      sql: '(("name" = $1) OR ("age" > $2)) AND NOT ("id" = $3)',
+      params: ['Ada', 30, 1],
+    });
+    expect(compile({ OR: [] }).sql).toBe('FALSE');
+  });
+
+  test('filters on paths into JSON fields', () => {
+    expect(compile({ 'metadata.limits.seats': { gte: 10 } })).toEqual({
+      sql: '("metadata" #> $1::text[]) >= $2::jsonb',
+      params: [['limits', 'seats'], '10'],
+    });
+    expect(compile({ metadata: { hasKey: 'plan' } })).toEqual({
+      sql: '"metadata" ? $1',
+      params: ['plan'],
+    });
+    expect(compile({ 'metadata.tags': { arrayContains: 'beta' } })).toEqual({
+      sql: '("metadata" #> $1::text[]) @> $2::jsonb',
+      params: [['tags'], '["beta"]'],
+    });
+  });
+
+  test('only takes JSON operators on JSON fields', () => {
+    expect(() => compile({ name: { hasKey: 'x' } })).toThrow(
+      '"hasKey" only applies to JSON fields'
+    );
+    expect(() => compile({ 'name.first': 'Ada' })).toThrow(
+      'Unknown field "name.first"'
+    );
+  });
+
+  test('rejects unknown fields', () => {
+    expect(() => compile({ email: 'a@b.c' })).toThrow(
+      'Unknown field "email" in where clause for "User"'
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import { quoteIdentifier } from './sql';
+import { isJsonType, jsonPath } from './json';
+
+const comparisonOperators: Record<string, string> = {
+  equals: '=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const patternOperators: Record<string, (value: string) => [string, string]> = {
+  contains: (value) => ['LIKE', `%${escapeLike(value)}%`],
+  startsWith: (value) => ['LIKE', `${escapeLike(value)}%`],
+  endsWith: (value) => ['LIKE', `%${escapeLike(value)}`],
+  like: (value) => ['LIKE', value],
+  ilike: (value) => ['ILIKE', value],
+};
+
+// Only valid on JSON fields and paths into them.
+const jsonOperators = ['hasKey', 'jsonContains', 'arrayContains'];
+
+const filterOperators = new Set([
+  ...Object.keys(comparisonOperators),
+  ...Object.keys(patternOperators),
+  'in',
+  'notIn',
+  'isNull',
+  'not',
+  ...jsonOperators,
+]);
+
+/**
+ * How a JSON field or path is compared: values are sent as jsonb, and the
+ * pattern operators match the `text` form of the value.
+ */
+type JsonColumn = {
+  text: string;
+};
+
+type WhereContext = {
+  table: string;
+  fields: Record<string, SchemaField>;
+};
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function isOperatorObject(value: unknown): value is FieldFilterOperators<any> {
+  if (
+    value === null ||
+    typeof value !== 'object' ||
+    Array.isArray(value) ||
+    value instanceof Date ||
+    Buffer.isBuffer(value)
+  ) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => filterOperators.has(key));
+}
+
+export function compileField(
+  column: string,
+  filter: FieldFilter<any>,
+  params: any[],
+  json?: JsonColumn
+): string[] {
+  const placeholder = (value: unknown) => {
+    params.push(json ? JSON.stringify(value) : value);
+    return `$${params.length}${json ? '::jsonb' : ''}`;
+  };
+  if (filter === null) {
+    return [`${column} IS NULL`];
+  }
+  if (Array.isArray(filter)) {
+    return compileField(column, { in: filter }, params, json);
+  }
+  if (!isOperatorObject(filter)) {
+    return [`${column} = ${placeholder(filter)}`];
+  }
+
+  const conditions: string[] = [];
+  for (const [operator, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+
+    if (operator in comparisonOperators) {
+      if (value === null) {
+        conditions.push(`${column} IS NULL`);
+        continue;
+      }
+      conditions.push(
+        `${column} ${comparisonOperators[operator]} ${placeholder(value)}`
+      );
+    } else if (operator in patternOperators) {
+      const [keyword, pattern] = patternOperators[operator](String(value));
+      params.push(pattern);
+      conditions.push(`${json?.text ?? column} ${keyword} $${params.length}`);
+    } else if (operator === 'in' || operator === 'notIn') {
+      const values = value as any[];
+      if (values.length === 0) {
+        conditions.push(operator === 'in' ? 'FALSE' : 'TRUE');
+        continue;
+      }
+      params.push(
+        json ? values.map((element) => JSON.stringify(element)) : values
+      );
+      const list = `$${params.length}${json ? '::jsonb[]' : ''}`;
+      conditions.push(
+        operator === 'in'
+          ? `${column} = ANY(${list})`
+          : `NOT (${column} = ANY(${list}))`
+      );
+    } else if (jsonOperators.includes(operator)) {
+      if (!json) {
+        throw new Error(`"${operator}" only applies to JSON fields`);
+      }
+      if (operator === 'hasKey') {
+        params.push(String(value));
+        conditions.push(`${column} ? $${params.length}`);
+      } else {
+        const contained =
+          operator === 'arrayContains' && !Array.isArray(value)
+            ? [value]
+            : value;
+        conditions.push(`${column} @> ${placeholder(contained)}`);
+      }
+    } else if (operator === 'isNull') {
+      conditions.push(`${column} IS ${value ? '' : 'NOT '}NULL`);
+    } else if (operator === 'not') {
+      if (value === null) {
+        conditions.push(`${column} IS NOT NULL`);
+        continue;
+      }
+      const negated = compileField(column, value, params, json);
+      if (negated.length > 0) {
+        conditions.push(`NOT (${negated.join(' AND ')})`);
+      }
+    }
+  }
+  return conditions;
+}
+
+/**
+ * Compiles a where clause into a parameterized SQL condition. Values are
+ * appended to `params` and referenced by position, so the same array can be
+ * shared with the rest of the statement. Returns an empty string when the
+ * clause has no conditions.
+ */
+export function compileWhere(
+  where: WhereClause<any> | undefined,
+  params: any[],
+  context: WhereContext
+): string {
+  if (!where) {
+    return '';
+  }
+
+  const conditions: string[] = [];
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) continue;
+
+    if (key === 'AND' || key === 'OR') {
+      // An empty group matches every row; an empty OR list matches none.
+      const groups = (value as WhereClause<any>[]).map(
+        (group) => compileWhere(group, params, context) || 'TRUE'
+      );
+      if (groups.length === 0) {
+        if (key === 'OR') conditions.push('FALSE');
+        continue;
+      }
+      conditions.push(
+        `(${groups.map((group) => `(${group})`).join(` ${key} `)})`
+      );
+    } else if (key === 'NOT') {
+      const negated = compileWhere(value as WhereClause<any>, params, context);
+      if (negated) {
+        conditions.push(`NOT (${negated})`);
+      }
+    } else if (key in context.fields) {
+      const column = quoteIdentifier(key);
+      conditions.push(
+        ...compileField(
+          column,
+          value,
+          params,
+          isJsonType(context.fields[key])
+            ? { text: `${column}::text` }
+            : undefined
+        )
+      );
+    } else {
+      // "metadata.plan" filters on a path into the JSON field "metadata".
+      const [field, ...path] = key.split('.');
+      if (path.length === 0 || !isJsonType(context.fields[field])) {
+        throw new Error(
+          `Unknown field "${key}" in where clause for "${context.table}"`
+        );
+      }
+      params.push(jsonPath(path.join('.')));
+      const column = quoteIdentifier(field);
+      const pathParam = `$${params.length}::text[]`;
+      conditions.push(
+        ...compileField(`(${column} #> ${pathParam})`, value, params, {
+          text: `(${column} #>> ${pathParam})`,
+        })
+      );
+    }
+  }
+
+  return conditions.join(' AND ');
+}
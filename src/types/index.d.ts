@@ -13,13 +13,89 @@ type Schema = {
     indexes?: Index[];
     required?: string[];
     optional?: string[];
+    /** Fields left out of every read unless they are selected explicitly. */
+    hidden?: string[];
+    /** Fields that get a single-column UNIQUE constraint. */
+    unique?: string[];
+    defaults?: {
+      [FieldName: string]: ColumnDefault;
+    };
+    validate?: {
+      [FieldName: string]: FieldValidation;
+    };
+    /**
+     * Adds a `deletedAt` column, turns deletes into setting it and leaves
+     * those rows out of reads. `cascade` also soft-deletes the rows of its
+     * hasMany and hasOne relations whose models soft-delete.
+     */
+    softDelete?: boolean | { cascade?: boolean };
+    /** Columns set on create and bumped on every update. Off by default. */
+    timestamps?: boolean | TimestampsOptions;
+    /** Full-text search over these fields through a generated tsvector column. */
+    search?: SearchConfig;
+    /** Shapes of JSON fields, used for their generated types. */
+    shapes?: {
+      [FieldName: string]: JsonShape;
+    };
   };
 };
 
+/** Rank of a search field's words; 'A' weighs most. */
+type SearchWeight = 'A' | 'B' | 'C' | 'D';
+
+type SearchConfig = {
+  /** Fields to index, as a list or with a weight each. Listed fields get 'D'. */
+  fields: string[] | { [FieldName: string]: SearchWeight };
+  /** Text search configuration used for stemming. Defaults to "english". */
+  language?: string;
+  /** Name of the generated tsvector column. Defaults to "searchVector". */
+  column?: string;
+};
+
+type TimestampsOptions = {
+  /** Column name, or `false` to leave the column out. Defaults to "createdAt". */
+  createdAt?: string | false;
+  /** Column name, or `false` to leave the column out. Defaults to "updatedAt". */
+  updatedAt?: string | false;
+  /** Creates the columns as `timestamptz` instead of `timestamp`. */
+  timezone?: boolean;
+};
+
+type FieldValidation = {
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  /** Regular expression source the value must match. */
+  pattern?: string;
+  enum?: (string | number | boolean)[];
+  /** Names of validators passed to the Squirmy constructor. */
+  custom?: string | string[];
+};
+
+/**
+ * Identifies one row: the key's value, or an object with a value for every
+ * column of a composite primary key.
+ */
+type PrimaryKeyValue = string | number | { [column: string]: unknown };
+
+/**
+ * A column default: a literal value, or `{ sql }` for an expression such as
+ * `{ "sql": "now()" }`.
+ */
+type ColumnDefault = string | number | boolean | null | { sql: string };
+
+type SyncOptions = {
+  /** Return the statements without running them. */
+  dryRun?: boolean;
+};
+
 type Index = {
   name: string;
   fields: string[];
   unique?: boolean;
+  /** Index method; btree when left out. */
+  using?: 'btree' | 'hash' | 'gin' | 'gist';
 };
 
 type InferFieldType<T extends SchemaField> = T extends 'string'
@@ -46,8 +122,107 @@ type Relation = {
   onUpdate?: OnUpdateAction;
 };
 
-type ModelData<T extends keyof Schema> = {
-  [K in keyof Schema[T]['fields']]: InferModelType<T['fields'][K]>;
+type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Describes a JSON field's value for the generated types: "string",
+ * "number", "boolean", "null" or "json" (any JSON), unions of those such as
+ * "string | null", a one-element list for arrays, or an object whose
+ * optional keys end in "?".
+ */
+type JsonShape = string | JsonShape[] | { [key: string]: JsonShape };
+
+/** Partial update of a JSON field, passed in place of a new value. */
+type JsonUpdate = {
+  /** Values written at dotted paths. Missing objects on the path are created. */
+  jsonSet?: { [path: string]: JsonValue };
+  /** Object merged into the value; its keys replace existing ones. */
+  jsonMerge?: { [key: string]: JsonValue };
+  /** Dotted paths to remove. */
+  jsonRemove?: string | string[];
+};
+
+/** Row type of a model, as declared in the generated types file. */
+type ModelData<T extends keyof Schema> = T extends keyof ModelTypes
+  ? ModelTypes[T]['select']
+  : Record<string, any>;
+
+/** What `create` accepts: fields with defaults or generated values may be left out. */
+type CreateData<T extends keyof Schema> = T extends keyof ModelTypes
+  ? ModelTypes[T]['create']
+  : Record<string, any>;
+
+type UpdateData<T extends keyof Schema> = T extends keyof ModelTypes
+  ? ModelTypes[T]['update']
+  : Record<string, any>;
+
+/** Related rows by relation name: arrays for hasMany and manyToMany. */
+type ModelRelations<T extends keyof Schema> = T extends keyof ModelTypes
+  ? ModelTypes[T]['relations']
+  : Record<string, any>;
+
+/**
+ * Relations to load with a read. Only the top level is typed against the
+ * model; nested includes use `Include`.
+ */
+type ModelInclude<T extends keyof Schema> =
+  | readonly RelationPath<keyof ModelRelations<T> & string>[]
+  | { [R in keyof ModelRelations<T>]?: true | IncludeOptions };
+
+/** A relation name, optionally followed by nested relations: `posts.comments`. */
+type RelationPath<R extends string> = R | `${R}.${string}`;
+
+/** The relations a `ModelInclude` adds to each row. */
+type Included<T extends keyof Schema, I> = [I] extends [
+  readonly (infer P)[]
+]
+  ? {
+      [K in (P extends `${infer R}.${string}` ? R : P) &
+        keyof ModelRelations<T>]: ModelRelations<T>[K];
+    }
+  : {
+      [K in keyof I & keyof ModelRelations<T>]: ModelRelations<T>[K];
+    };
+
+type SchemaIssue = {
+  severity: 'error' | 'warning';
+  model: string;
+  /** Where in the model the problem is, such as `relations.author.model`. */
+  path: string;
+  message: string;
+};
+
+/**
+ * Settings read by the command-line tool from squirmy.config.json. The
+ * connection falls back to DATABASE_URL and the standard PG* variables.
+ */
+type SquirmyConfig = {
+  schemaPath?: string;
+  migrationsDir?: string;
+  connectionString?: string;
+  pool?: import('pg').PoolConfig;
+  types?: TypeGenerationOptions;
+  /** Module whose default export seeds the database. */
+  seed?: string;
+  logLevel?: LogLevel;
+};
+
+type TypesFormat = 'global' | 'module';
+
+type TypeGenerationOptions = {
+  /** Defaults to squirmy_types.d.ts in the working directory. */
+  outputPath?: string;
+  /**
+   * `global` writes ambient declarations; `module` exports the model types
+   * and declares `ModelTypes` globally.
+   */
+  format?: TypesFormat;
 };
 
 interface PaginationResult<T> {
@@ -58,9 +233,439 @@ interface PaginationResult<T> {
   totalPages: number;
 }
 
-interface FindAllOptions {
-  where?: Partial<ModelData<any>>;
+type FieldFilterOperators<V> = {
+  equals?: V | null;
+  not?: V | null | FieldFilterOperators<V>;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: V[];
+  notIn?: V[];
+  contains?: string;
+  startsWith?: string;
+  endsWith?: string;
+  like?: string;
+  ilike?: string;
+  isNull?: boolean;
+  /** JSON fields: the object has this top-level key. */
+  hasKey?: string;
+  /** JSON fields: the value contains this JSON (`@>`). */
+  jsonContains?: JsonValue;
+  /** JSON fields: the array holds this element, or every element of this array. */
+  arrayContains?: JsonValue;
+};
+
+type FieldFilter<V> = V | V[] | null | FieldFilterOperators<V>;
+
+/** Fields whose values are not scalars, which dotted where keys can reach into. */
+type JsonFieldKeys<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends string | number | boolean | Date
+    ? never
+    : K;
+}[keyof T] &
+  string;
+
+type WhereClause<T> = {
+  [K in keyof T]?: FieldFilter<T[K]>;
+} & {
+  [P in `${JsonFieldKeys<T>}.${string}`]?: FieldFilter<JsonValue>;
+} & {
+  AND?: WhereClause<T>[];
+  OR?: WhereClause<T>[];
+  NOT?: WhereClause<T>;
+};
+
+type IncludeOptions = {
+  where?: WhereClause<ModelData<any>>;
   orderBy?: string;
   limit?: number;
+  include?: Include;
+  select?: string[];
+  omit?: string[];
+} & SoftDeleteScope;
+
+type Include =
+  | readonly string[]
+  | { [relationName: string]: true | IncludeOptions | undefined };
+
+/**
+ * Reads of soft-delete models leave deleted rows out; `withDeleted` returns
+ * them too and `onlyDeleted` returns nothing else.
+ */
+type SoftDeleteScope = {
+  withDeleted?: boolean;
+  onlyDeleted?: boolean;
+};
+
+type SelectOptions<
+  T,
+  S extends keyof T = keyof T,
+  O extends keyof T = never
+> = {
+  /** Fields to return. Hidden fields are only returned when listed here. */
+  select?: S[];
+  omit?: O[];
+  distinct?: boolean;
+  /** Keeps the first row for each combination of these fields. */
+  distinctOn?: (keyof T)[];
+};
+
+/** Row type of a read narrowed by `select` and `omit`. */
+type Selected<
+  T,
+  S extends keyof T = keyof T,
+  O extends keyof T = never
+> = Omit<Pick<T, S>, O>;
+
+interface FindAllOptions<T = Record<string, any>> extends SoftDeleteScope {
+  where?: WhereClause<T>;
+  orderBy?: keyof T;
+  limit?: number;
+  offset?: number;
+  include?: Include;
+}
+
+type ColumnSnapshot = {
+  name: string;
+  dataType: string;
+  udtName: string;
+  nullable: boolean;
+  default: string | null;
+  maxLength: number | null;
+  numericPrecision: number | null;
+  numericScale: number | null;
+  /** The full type as Postgres writes it, such as "numeric(10,2)". */
+  type: string;
+  /** Expression of a generated column, as Postgres stores it. */
+  generation: string | null;
+};
+
+type ForeignKeySnapshot = {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete?: OnDeleteAction;
+  onUpdate?: OnUpdateAction;
+  definition: string;
+};
+
+type IndexSnapshot = {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  /** Index access method, such as "btree" or "gin". */
+  method: string;
+  constraintBacked: boolean;
+  definition: string;
+};
+
+type TableSnapshot = {
+  columns: Record<string, ColumnSnapshot>;
+  primaryKey: string[];
+  uniqueConstraints: { name: string; columns: string[] }[];
+  foreignKeys: ForeignKeySnapshot[];
+  indexes: IndexSnapshot[];
+};
+
+type DatabaseSnapshot = Record<string, TableSnapshot>;
+
+type MigrationStep = {
+  up: string;
+  down: string;
+};
+
+type Migration = {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath: string;
+};
+
+type MigrationStatus = Migration & {
+  appliedAt: Date | null;
+};
+
+type IsolationLevel =
+  | 'READ UNCOMMITTED'
+  | 'READ COMMITTED'
+  | 'REPEATABLE READ'
+  | 'SERIALIZABLE';
+
+type TransactionOptions = {
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+  /** How many times to retry after a serialization failure. Defaults to 3. */
+  maxRetries?: number;
+};
+
+/** Column values that `squirmy.scoped` confines every model having them to. */
+type ScopeValues = Record<string, unknown>;
+
+type ScopeOptions = {
+  /**
+   * Postgres settings set to scope values around every statement, by scope
+   * field, for row-level security policies: `{ tenantId: 'app.tenant_id' }`.
+   */
+  settings?: Record<string, string>;
+};
+
+type SortDirection = 'asc' | 'desc';
+
+type CursorPaginationOptions<T> = {
+  take: number;
+  after?: string;
+  before?: string;
+  /** Keys are applied in insertion order; the primary key is always the final tiebreaker. */
+  orderBy?: keyof T | { [K in keyof T]?: SortDirection };
+  where?: WhereClause<T>;
+  include?: Include;
+  /** Also run a COUNT(*) for the filter. Off by default. */
+  withTotal?: boolean;
+} & SoftDeleteScope;
+
+interface CursorPaginationResult<T> {
+  data: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  total?: number;
+}
+
+type AggregateFunction =
+  | '_count'
+  | '_countDistinct'
+  | '_sum'
+  | '_avg'
+  | '_min'
+  | '_max';
+
+type AggregateSelection<T> = {
+  /** `true` counts rows; a field list counts the non-null values of each field. */
+  _count?: true | (keyof T)[];
+  _countDistinct?: (keyof T)[];
+  _sum?: (keyof T)[];
+  _avg?: (keyof T)[];
+  _min?: (keyof T)[];
+  _max?: (keyof T)[];
+};
+
+type AggregateResult<T> = {
+  _count?: number | { [F in keyof T]?: number };
+  _countDistinct?: { [F in keyof T]?: number };
+  _sum?: { [F in keyof T]?: number | null };
+  _avg?: { [F in keyof T]?: number | null };
+  _min?: { [F in keyof T]?: T[F] | null };
+  _max?: { [F in keyof T]?: T[F] | null };
+};
+
+type HavingClause<T> = {
+  _count?: FieldFilter<number> | { [F in keyof T]?: FieldFilter<number> };
+  _countDistinct?: { [F in keyof T]?: FieldFilter<number> };
+  _sum?: { [F in keyof T]?: FieldFilter<number> };
+  _avg?: { [F in keyof T]?: FieldFilter<number> };
+  _min?: { [F in keyof T]?: FieldFilter<T[F]> };
+  _max?: { [F in keyof T]?: FieldFilter<T[F]> };
+};
+
+type AggregateOrderBy<T> = {
+  _count?: SortDirection | { [F in keyof T]?: SortDirection };
+} & {
+  [A in Exclude<AggregateFunction, '_count'>]?: {
+    [F in keyof T]?: SortDirection;
+  };
+};
+
+type AggregateOptions<T> = AggregateSelection<T> & {
+  where?: WhereClause<T>;
+} & SoftDeleteScope;
+
+type GroupByOptions<T, K extends keyof T> = AggregateOptions<T> & {
+  by: K[];
+  having?: HavingClause<T>;
+  orderBy?: { [F in K]?: SortDirection } & AggregateOrderBy<T>;
+  limit?: number;
+  offset?: number;
+};
+
+type GroupByResult<T, K extends keyof T> = Pick<T, K> & AggregateResult<T>;
+
+type CreateManyOptions = {
+  /** Rows that violate a unique constraint are skipped and not returned. */
+  skipDuplicates?: boolean;
+  /** Rows per INSERT statement. Capped so a statement stays under 65535 parameters. */
+  batchSize?: number;
+};
+
+type HighlightOptions = {
+  /** Fields to highlight. Defaults to every search field. */
+  fields?: string[];
+  /** Marks placed around matches. Default to <b> and </b>. */
+  startSel?: string;
+  stopSel?: string;
+  maxWords?: number;
+  minWords?: number;
+  /** Above 0, returns up to this many fragments instead of one excerpt. */
+  maxFragments?: number;
+  fragmentDelimiter?: string;
+};
+
+type SearchOptions<T> = {
+  where?: WhereClause<T>;
+  limit?: number;
   offset?: number;
+  /** Adds `_highlights` with each field's matches marked up. */
+  highlight?: boolean | HighlightOptions;
+} & SoftDeleteScope;
+
+type SearchMatch = {
+  /** ts_rank of the row for the query; higher is better. */
+  _rank: number;
+  _highlights?: { [FieldName: string]: string };
+};
+
+type StreamOptions = {
+  /** Rows fetched from the cursor per round trip. */
+  batchSize?: number;
+};
+
+type DeleteManyOptions = {
+  /** Removes the rows of a soft-delete model instead of marking them deleted. */
+  force?: boolean;
+};
+
+type UpsertOptions<T> = {
+  /** Columns of the primary key or of a unique index. Defaults to the primary key. */
+  conflictTarget?: keyof T | (keyof T)[];
+  /** Columns overwritten when the row exists. Defaults to every inserted column outside the conflict target and primary key. */
+  update?: (keyof T)[];
+  batchSize?: number;
+};
+
+interface CacheAdapter {
+  get<V = unknown>(key: string): Promise<V | undefined>;
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<void>;
 }
+
+type CacheOptions = {
+  /** Defaults to an in-memory LRU. */
+  adapter?: CacheAdapter;
+  /** Default time to live in seconds. Defaults to 600. */
+  ttl?: number;
+  /** Size of the default in-memory LRU. Defaults to 1000 entries. */
+  maxEntries?: number;
+  /** Models to cache, optionally with their own TTL. Every model is cached when omitted. */
+  models?: Record<string, boolean | { ttl?: number }>;
+};
+
+type MaybePromise<V> = V | Promise<V>;
+
+type HookContext = {
+  model: string;
+  /** The client of the transaction the write runs in. */
+  client: import('pg').PoolClient;
+  /** Primary key of the row, for hooks of single-row updates and deletes. */
+  id?: any;
+};
+
+type LifecycleHooks<T = any> = {
+  beforeCreate?: (
+    data: Partial<T>,
+    context: HookContext
+  ) => MaybePromise<Partial<T> | void>;
+  afterCreate?: (row: T, context: HookContext) => MaybePromise<void>;
+  beforeUpdate?: (
+    data: Partial<T>,
+    context: HookContext
+  ) => MaybePromise<Partial<T> | void>;
+  afterUpdate?: (row: T, context: HookContext) => MaybePromise<void>;
+  beforeDelete?: (id: any, context: HookContext) => MaybePromise<void>;
+  afterDelete?: (row: T | null, context: HookContext) => MaybePromise<void>;
+  beforeUpdateMany?: (
+    args: { where: WhereClause<T>; data: Partial<T> },
+    context: HookContext
+  ) => MaybePromise<{ where: WhereClause<T>; data: Partial<T> } | void>;
+  afterUpdateMany?: (
+    result: { where: WhereClause<T>; data: Partial<T>; count: number },
+    context: HookContext
+  ) => MaybePromise<void>;
+  beforeDeleteMany?: (
+    args: { where: WhereClause<T> },
+    context: HookContext
+  ) => MaybePromise<{ where: WhereClause<T> } | void>;
+  afterDeleteMany?: (
+    result: { where: WhereClause<T>; count: number },
+    context: HookContext
+  ) => MaybePromise<void>;
+};
+
+type HookName = keyof LifecycleHooks;
+
+type ValidationIssue = {
+  field: string;
+  rule: string;
+  message: string;
+};
+
+/**
+ * Returns false or an error message when the value is invalid.
+ */
+type CustomValidator = (
+  value: any,
+  context: { model: string; field: string; data: Record<string, any> }
+) => MaybePromise<boolean | string | void>;
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+type Logger = {
+  debug(message: string, ...meta: unknown[]): void;
+  info(message: string, ...meta: unknown[]): void;
+  warn(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
+};
+
+type QueryEvent = {
+  sql: string;
+  params: unknown[];
+  model?: string;
+  operation?: string;
+};
+
+type QueryEndEvent = QueryEvent & {
+  durationMs: number;
+  rowCount: number;
+};
+
+type QueryErrorEvent = QueryEvent & {
+  durationMs: number;
+  error: unknown;
+};
+
+type QueryEvents = {
+  'query:start': QueryEvent;
+  'query:end': QueryEndEvent;
+  'query:slow': QueryEndEvent;
+  'query:error': QueryErrorEvent;
+};
+
+type InstrumentationOptions = {
+  logger?: Logger;
+  logLevel?: LogLevel;
+  /** Queries taking at least this many milliseconds emit `query:slow`. */
+  slowQueryThreshold?: number;
+  /**
+   * `true` replaces every parameter in events and logs with "[REDACTED]"; a
+   * function can redact selectively.
+   */
+  redactParams?:
+    | boolean
+    | ((
+        param: unknown,
+        index: number,
+        query: Omit<QueryEvent, 'params'>
+      ) => unknown);
+};
@@ -1,97 +1,253 @@
-// Generated types start
-type User = {
-      id: string;
+// Generated by Squirmy from the schema. Do not edit.
+
+type UserSelect = {
+  id: string;
+  name: string;
+  email: string;
+  password?: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+type UserCreate = {
+  id: string;
   name: string;
   email: string;
   password: string;
-  createdAt: Date;
-  updatedAt: Date;
-      relations: {
-    posts: { type: 'hasMany'; model: 'Post'; foreignKey: 'userid'; };
-    profile: { type: 'hasOne'; model: 'Profile'; foreignKey: 'userid'; };
-    roles: { type: 'manyToMany'; model: 'Role'; foreignKey: 'userid'; };
-  }
-    };
-
-type Post = {
-      id: string;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+};
+
+type UserUpdate = {
+  id?: string;
+  name?: string;
+  email?: string;
+  password?: string;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+};
+
+type UserRelations = {
+  posts: PostSelect[];
+  profile: ProfileSelect | null;
+  roles: RoleSelect[];
+};
+
+type PostSelect = {
+  id: string;
   title: string;
   content: string;
   userid: string;
-  createdAt: Date;
-  updatedAt: Date;
-      relations: {
-    author: { type: 'belongsTo'; model: 'User'; foreignKey: 'userid'; };
-    comments: { type: 'hasMany'; model: 'Comment'; foreignKey: 'postId'; };
-    tags: { type: 'manyToMany'; model: 'Tag'; foreignKey: 'postId'; };
-  }
-    };
-
-type Profile = {
-      id: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+type PostCreate = {
+  id: string;
+  title: string;
+  content: string;
+  userid: string;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+};
+
+type PostUpdate = {
+  id?: string;
+  title?: string;
+  content?: string;
+  userid?: string;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+};
+
+type PostRelations = {
+  author: UserSelect | null;
+  comments: CommentSelect[];
+  tags: TagSelect[];
+};
+
+type ProfileSelect = {
+  id: string;
   userid: string;
-  bio: string;
-  avatarUrl: string;
-      relations: {
-    user: { type: 'belongsTo'; model: 'User'; foreignKey: 'userid'; };
-  }
-    };
-
-type Role = {
-      id: string;
+  bio: string | null;
+  avatarUrl: string | null;
+};
+
+type ProfileCreate = {
+  id: string;
+  userid: string;
+  bio?: string | null;
+  avatarUrl?: string | null;
+};
+
+type ProfileUpdate = {
+  id?: string;
+  userid?: string;
+  bio?: string | null;
+  avatarUrl?: string | null;
+};
+
+type ProfileRelations = {
+  user: UserSelect | null;
+};
+
+type RoleSelect = {
+  id: string;
+  name: string;
+};
+
+type RoleCreate = {
+  id: string;
   name: string;
-      relations: {
-    users: { type: 'manyToMany'; model: 'User'; foreignKey: 'roleId'; };
-  }
-    };
+};
+
+type RoleUpdate = {
+  id?: string;
+  name?: string;
+};
+
+type RoleRelations = {
+  users: UserSelect[];
+};
+
+type CommentSelect = {
+  id: string;
+  content: string;
+  postId: string;
+  userid: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
 
-type Comment = {
-      id: string;
+type CommentCreate = {
+  id: string;
   content: string;
   postId: string;
   userid: string;
-  createdAt: Date;
-  updatedAt: Date;
-      relations: {
-    post: { type: 'belongsTo'; model: 'Post'; foreignKey: 'postId'; };
-    author: { type: 'belongsTo'; model: 'User'; foreignKey: 'userid'; };
-  }
-    };
-
-type Tag = {
-      id: string;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+};
+
+type CommentUpdate = {
+  id?: string;
+  content?: string;
+  postId?: string;
+  userid?: string;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+};
+
+type CommentRelations = {
+  post: PostSelect | null;
+  author: UserSelect | null;
+};
+
+type TagSelect = {
+  id: string;
   name: string;
-      relations: {
-    posts: { type: 'manyToMany'; model: 'Post'; foreignKey: 'tagId'; };
-  }
-    };
+};
+
+type TagCreate = {
+  id: string;
+  name: string;
+};
+
+type TagUpdate = {
+  id?: string;
+  name?: string;
+};
+
+type TagRelations = {
+  posts: PostSelect[];
+};
 
-type UserRoles = {
-      userid: string;
+type UserRolesSelect = {
+  userid: string;
+  roleId: string;
+};
+
+type UserRolesCreate = {
+  userid: string;
   roleId: string;
-      relations: {
-    user: { type: 'belongsTo'; model: 'User'; foreignKey: 'userid'; };
-    role: { type: 'belongsTo'; model: 'Role'; foreignKey: 'roleId'; };
-  }
-    };
-
-type PostTags = {
-      postId: string;
+};
+
+type UserRolesUpdate = {
+  userid?: string;
+  roleId?: string;
+};
+
+type UserRolesRelations = {
+  user: UserSelect | null;
+  role: RoleSelect | null;
+};
+
+type PostTagsSelect = {
+  postId: string;
+  tagId: string;
+};
+
+type PostTagsCreate = {
+  postId: string;
   tagId: string;
-      relations: {
-    post: { type: 'belongsTo'; model: 'Post'; foreignKey: 'postId'; };
-    tag: { type: 'belongsTo'; model: 'Tag'; foreignKey: 'tagId'; };
-  }
-    };
+};
+
+type PostTagsUpdate = {
+  postId?: string;
+  tagId?: string;
+};
+
+type PostTagsRelations = {
+  post: PostSelect | null;
+  tag: TagSelect | null;
+};
 
 type ModelTypes = {
-    User: User;
-  Post: Post;
-  Profile: Profile;
-  Role: Role;
-  Comment: Comment;
-  Tag: Tag;
-  UserRoles: UserRoles;
-  PostTags: PostTags;
+  User: {
+    select: UserSelect;
+    create: UserCreate;
+    update: UserUpdate;
+    relations: UserRelations;
+  };
+  Post: {
+    select: PostSelect;
+    create: PostCreate;
+    update: PostUpdate;
+    relations: PostRelations;
+  };
+  Profile: {
+    select: ProfileSelect;
+    create: ProfileCreate;
+    update: ProfileUpdate;
+    relations: ProfileRelations;
+  };
+  Role: {
+    select: RoleSelect;
+    create: RoleCreate;
+    update: RoleUpdate;
+    relations: RoleRelations;
+  };
+  Comment: {
+    select: CommentSelect;
+    create: CommentCreate;
+    update: CommentUpdate;
+    relations: CommentRelations;
+  };
+  Tag: {
+    select: TagSelect;
+    create: TagCreate;
+    update: TagUpdate;
+    relations: TagRelations;
+  };
+  UserRoles: {
+    select: UserRolesSelect;
+    create: UserRolesCreate;
+    update: UserRolesUpdate;
+    relations: UserRolesRelations;
+  };
+  PostTags: {
+    select: PostTagsSelect;
+    create: PostTagsCreate;
+    update: PostTagsUpdate;
+    relations: PostTagsRelations;
   };
-// Generated types end
+};